@@ -26,7 +26,8 @@ const esbuildProblemMatcherPlugin = {
 async function main() {
 	const ctx = await esbuild.context({
 		entryPoints: [
-			'src/extension.ts'
+			'src/extension.ts',
+			'src/cli.ts'
 		],
 		bundle: true,
 		format: 'cjs',
@@ -34,8 +35,11 @@ async function main() {
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode'],
+		// Prefer ES module builds; the UMD build of jsonc-parser cannot be bundled.
+		mainFields: ['module', 'main'],
+		outdir: 'dist',
+		// The TypeScript compiler is loaded on demand for outlines, so it ships unbundled in node_modules.
+		external: ['vscode', 'typescript'],
 		logLevel: 'silent',
 		plugins: [
 			/* add to the end of plugins array */
@@ -0,0 +1,222 @@
+// src/applyResponse.ts
+//
+// Applies a pasted LLM response to the workspace: the files and diffs it contains are previewed
+// one at a time with `vscode.diff`, and the accepted ones are applied as a single WorkspaceEdit.
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { applyUnifiedDiff, parseResponse } from './responseParser';
+import { ResponseEdit } from './types';
+import { debugLog } from './utils';
+
+// Proposed file contents are served under this scheme for the diff preview.
+const PROPOSED_SCHEME = 'file-combine-response';
+
+interface PlannedChange {
+    uri: vscode.Uri;
+    label: string;
+    action: 'create' | 'modify' | 'delete';
+    proposed: string;
+}
+
+const proposedContents = new Map<string, string>();
+// Bumped for every response, so the preview never shows a document cached from an earlier one.
+let previewGeneration = 0;
+
+export function registerResponsePreview(): vscode.Disposable {
+    return vscode.workspace.registerTextDocumentContentProvider(PROPOSED_SCHEME, {
+        provideTextDocumentContent: uri => proposedContents.get(uri.toString()) ?? ''
+    });
+}
+
+function isInside(root: string, fsPath: string): boolean {
+    const relative = path.relative(root, fsPath);
+    return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Resolves a path from a response to a file in a workspace folder: relative to the folder that
+ * has it, to the folder named by its first segment in multi-root output, or else to the first
+ * folder for new files. Paths that end up outside every workspace folder resolve to undefined.
+ */
+async function resolveWorkspacePath(responsePath: string): Promise<vscode.Uri | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (path.isAbsolute(responsePath)) {
+        const fsPath = path.normalize(responsePath);
+        return folders.some(folder => isInside(folder.uri.fsPath, fsPath)) ? vscode.Uri.file(fsPath) : undefined;
+    }
+    const candidates: { folder: vscode.WorkspaceFolder; fsPath: string }[] = [];
+    for (const folder of folders) {
+        if (folders.length > 1 && responsePath.startsWith(`${folder.name}/`)) {
+            candidates.unshift({ folder, fsPath: path.resolve(folder.uri.fsPath, responsePath.slice(folder.name.length + 1)) });
+        }
+        candidates.push({ folder, fsPath: path.resolve(folder.uri.fsPath, responsePath) });
+    }
+    const inside = candidates.filter(candidate => isInside(candidate.folder.uri.fsPath, candidate.fsPath));
+    for (const candidate of inside) {
+        if (await exists(vscode.Uri.file(candidate.fsPath))) { return vscode.Uri.file(candidate.fsPath); }
+    }
+    return inside.length > 0 ? vscode.Uri.file(inside[0].fsPath) : undefined;
+}
+
+async function readCurrentText(uri: vscode.Uri): Promise<string | undefined> {
+    if (!await exists(uri)) { return undefined; }
+    // Open documents may have unsaved changes, which the edit applies on top of.
+    const document = await vscode.workspace.openTextDocument(uri);
+    return document.getText();
+}
+
+// Works out the new content of each file, collecting a reason for every file that can't be changed.
+async function planChanges(edits: ResponseEdit[]): Promise<{ changes: PlannedChange[]; problems: string[] }> {
+    const changes: PlannedChange[] = [];
+    const problems: string[] = [];
+    for (const edit of edits) {
+        if (edit.kind === 'unsupported') {
+            problems.push(`${edit.path}: skipped because ${edit.reason}`);
+            continue;
+        }
+        const uri = await resolveWorkspacePath(edit.path);
+        if (!uri) {
+            problems.push(`${edit.path}: refused because it is outside the workspace`);
+            continue;
+        }
+        const label = vscode.workspace.asRelativePath(uri);
+        let current: string | undefined;
+        try {
+            current = await readCurrentText(uri);
+        } catch (error) {
+            debugLog(`Error reading ${uri.fsPath} to apply a response:`, error);
+            problems.push(`${label}: could not be read`);
+            continue;
+        }
+
+        if (edit.kind === 'delete') {
+            if (current !== undefined) {
+                changes.push({ uri, label, action: 'delete', proposed: '' });
+            }
+            continue;
+        }
+        let proposed: string | undefined;
+        if (edit.kind === 'replace') {
+            // Fenced blocks lose the file's final newline.
+            proposed = current?.endsWith('\n') && !edit.content.endsWith('\n') ? `${edit.content}\n` : edit.content;
+        } else {
+            proposed = applyUnifiedDiff(current ?? '', edit.hunks);
+            if (proposed === undefined) {
+                problems.push(`${label}: the diff does not match the current file`);
+                continue;
+            }
+        }
+        if (proposed !== current) {
+            changes.push({ uri, label, action: current === undefined ? 'create' : 'modify', proposed });
+        }
+    }
+    return { changes, problems };
+}
+
+function proposedUri(change: PlannedChange, side: 'original' | 'proposed'): vscode.Uri {
+    return vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: change.uri.path, query: `${side}-${previewGeneration}` });
+}
+
+async function showDiff(change: PlannedChange) {
+    const original = change.action === 'create' ? proposedUri(change, 'original') : change.uri;
+    const title = `${path.basename(change.uri.fsPath)} (${change.action === 'create' ? 'New File' : change.action === 'delete' ? 'Deleted' : 'Response'})`;
+    await vscode.commands.executeCommand('vscode.diff', original, proposedUri(change, 'proposed'), title, { preview: true, preserveFocus: true });
+}
+
+// Lists the changes with all of them checked, previewing the highlighted one. Resolves to the checked changes, or undefined if dismissed.
+function pickChanges(changes: PlannedChange[]): Promise<PlannedChange[] | undefined> {
+    const descriptions = { create: 'new file', modify: 'modified', delete: 'deleted' };
+    const items = changes.map(change => ({ label: change.label, description: descriptions[change.action], change }));
+    const quickPick = vscode.window.createQuickPick<typeof items[number]>();
+    quickPick.title = 'Apply Response';
+    quickPick.placeholder = 'Select the changes to apply; the highlighted file\'s diff is shown in the editor';
+    quickPick.canSelectMany = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.items = items;
+    quickPick.selectedItems = items;
+
+    return new Promise(resolve => {
+        quickPick.onDidChangeActive(active => {
+            if (active[0]) {
+                showDiff(active[0].change).catch(error => debugLog('Error showing response diff:', error));
+            }
+        });
+        quickPick.onDidAccept(() => {
+            resolve(quickPick.selectedItems.map(item => item.change));
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
+
+async function buildWorkspaceEdit(changes: PlannedChange[]): Promise<vscode.WorkspaceEdit> {
+    const edit = new vscode.WorkspaceEdit();
+    for (const change of changes) {
+        if (change.action === 'create') {
+            edit.createFile(change.uri, { contents: Buffer.from(change.proposed) });
+        } else if (change.action === 'delete') {
+            edit.deleteFile(change.uri, { ignoreIfNotExists: true });
+        } else {
+            const document = await vscode.workspace.openTextDocument(change.uri);
+            edit.replace(change.uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), change.proposed);
+        }
+    }
+    return edit;
+}
+
+/**
+ * Reads a response from the active editor's selection, or the clipboard when nothing is selected,
+ * previews the file changes it contains and applies the accepted ones. Changed files are left
+ * unsaved, so the whole edit can be reviewed and undone.
+ */
+export async function applyResponseCommand() {
+    const editor = vscode.window.activeTextEditor;
+    const fromSelection = editor !== undefined && !editor.selection.isEmpty;
+    const text = fromSelection ? editor.document.getText(editor.selection) : await vscode.env.clipboard.readText();
+    const source = fromSelection ? 'the selection' : 'the clipboard';
+
+    const edits = parseResponse(text);
+    if (edits.length === 0) {
+        vscode.window.showWarningMessage(`No files or diffs found in ${source}. Copy the response, or select it in an editor, and try again.`);
+        return;
+    }
+    const { changes, problems } = await planChanges(edits);
+    if (problems.length > 0) {
+        vscode.window.showWarningMessage(`${problems.length} of ${edits.length} files in the response can't be applied.`, { modal: changes.length === 0, detail: problems.join('\n') });
+    }
+    if (changes.length === 0) {
+        if (problems.length === 0) {
+            vscode.window.showInformationMessage('The files in the response match the workspace already.');
+        }
+        return;
+    }
+
+    previewGeneration++;
+    proposedContents.clear();
+    for (const change of changes) {
+        proposedContents.set(proposedUri(change, 'proposed').toString(), change.proposed);
+    }
+    const accepted = await pickChanges(changes);
+    proposedContents.clear();
+    if (!accepted || accepted.length === 0) { return; }
+
+    const applied = await vscode.workspace.applyEdit(await buildWorkspaceEdit(accepted));
+    if (applied) {
+        vscode.window.showInformationMessage(`Applied the response to ${accepted.length} ${accepted.length === 1 ? 'file' : 'files'}. Changed files are not saved yet.`);
+    } else {
+        vscode.window.showErrorMessage('Could not apply the response.');
+    }
+}
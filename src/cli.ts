@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+// src/cli.ts
+//
+// Headless entry point: `file-combine <paths...>` writes the same combined output as the
+// extension, using the shared pipeline in combiner.ts with a Node file system host.
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { CombineHooks, CombineOptions, FileOrder, OutputFormat } from './types';
+import { OUTPUT_FORMATS, joinSections } from './formatters';
+import { collectAndProcessFiles, printProcessingSummary, renderCombinedOutput } from './combiner';
+import { FILE_ORDERS } from './fileOrder';
+import { groupPartialSelections, parsePartialSpec } from './partialRanges';
+import { createConfigSource, createNodeHost, loadSettingsFile } from './nodeHost';
+
+const USAGE = `Usage: file-combine [options] <paths...>
+
+Combines files and folders into a single document for pasting into an LLM. A file path
+may end in #L120-300 or ::Symbol to combine only that part of the file.
+
+Options:
+  -f, --format <format>     Output format: ${OUTPUT_FORMATS.join(', ')}
+  -o, --out <file>          Write the output to a file instead of stdout
+  -c, --config <file>       Settings file (defaults to <root>/.vscode/settings.json if present)
+  -r, --root <dir>          Workspace root used for relative paths and ignore files (default: cwd)
+  -e, --exclude <pattern>   Exclude pattern, replacing fileCombine.excludePatterns (repeatable)
+      --outline             Reduce every file to an outline of its declarations
+      --with-deps           Also combine the files the given files import
+      --order <order>       File order: ${FILE_ORDERS.join(', ')}
+      --tokenizer <name>    Tokenizer used for token counts
+      --max-tokens <n>      Token budget for the output (0 for no limit)
+      --line-numbers        Prefix each line with its line number
+      --anchors             Add a path@hash anchor, modification time and content hash to each file
+  -y, --yes                 Combine even when over fileCombine.maxFiles or fileCombine.maxTotalSizeMB
+      --summary             Print the processing summary to stderr
+      --verbose             Print debug logging to stderr
+  -h, --help                Show this help`;
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+function fail(message: string, code: number): never {
+    process.stderr.write(`file-combine: ${message}\n`);
+    process.exit(code);
+}
+
+async function main() {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            allowPositionals: true,
+            options: {
+                format: { type: 'string', short: 'f' },
+                out: { type: 'string', short: 'o' },
+                config: { type: 'string', short: 'c' },
+                root: { type: 'string', short: 'r' },
+                exclude: { type: 'string', short: 'e', multiple: true },
+                outline: { type: 'boolean' },
+                'with-deps': { type: 'boolean' },
+                order: { type: 'string' },
+                tokenizer: { type: 'string' },
+                'max-tokens': { type: 'string' },
+                'line-numbers': { type: 'boolean' },
+                anchors: { type: 'boolean' },
+                yes: { type: 'boolean', short: 'y' },
+                summary: { type: 'boolean' },
+                verbose: { type: 'boolean' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        });
+    } catch (error) {
+        fail(`${error instanceof Error ? error.message : error}\n\n${USAGE}`, EXIT_USAGE);
+    }
+    const { values, positionals } = parsed;
+
+    // Debug logging goes through console.log; stdout is reserved for the combined output.
+    console.log = values.verbose ? console.error : () => undefined;
+
+    if (values.help) {
+        process.stdout.write(`${USAGE}\n`);
+        return;
+    }
+    if (positionals.length === 0) {
+        fail(`no files or folders given\n\n${USAGE}`, EXIT_USAGE);
+    }
+    if (values.format && !OUTPUT_FORMATS.includes(values.format as OutputFormat)) {
+        fail(`unknown format "${values.format}", expected one of ${OUTPUT_FORMATS.join(', ')}`, EXIT_USAGE);
+    }
+    if (values.order && !FILE_ORDERS.includes(values.order as FileOrder)) {
+        fail(`unknown order "${values.order}", expected one of ${FILE_ORDERS.join(', ')}`, EXIT_USAGE);
+    }
+    const maxTokens = values['max-tokens'] !== undefined ? Number(values['max-tokens']) : undefined;
+    if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 0)) {
+        fail(`--max-tokens must be a non-negative integer`, EXIT_USAGE);
+    }
+
+    const root = path.resolve(values.root ?? process.cwd());
+    const defaultSettingsPath = path.join(root, '.vscode', 'settings.json');
+    const settingsPath = values.config ? path.resolve(values.config) : (fs.existsSync(defaultSettingsPath) ? defaultSettingsPath : undefined);
+    let settings: { [key: string]: unknown } = {};
+    if (settingsPath) {
+        try {
+            settings = loadSettingsFile(settingsPath);
+        } catch (error) {
+            fail(error instanceof Error ? error.message : String(error), EXIT_USAGE);
+        }
+    }
+    const overrides: { [key: string]: unknown } = {};
+    if (values.order) { overrides.fileOrder = values.order; }
+    if (values.tokenizer) { overrides.tokenizer = values.tokenizer; }
+    if (maxTokens !== undefined) { overrides.maxTokens = maxTokens; }
+    if (values['line-numbers']) { overrides.lineNumbers = true; }
+    if (values.anchors) { overrides.fileAnchors = true; }
+
+    const host = createNodeHost([root], createConfigSource(settings, overrides));
+    const hooks: CombineHooks = {
+        isCancelled: () => false,
+        reportProgress: () => undefined,
+        showWarning: message => process.stderr.write(`warning: ${message}\n`),
+        showError: message => process.stderr.write(`error: ${message}\n`),
+        confirm: message => {
+            process.stderr.write(`${values.yes ? 'warning' : 'error'}: ${message}${values.yes ? '' : ' Pass --yes to continue.'}\n`);
+            return Promise.resolve(values.yes === true);
+        }
+    };
+    const options: CombineOptions = {
+        outputFormat: values.format as OutputFormat | undefined,
+        excludePatterns: values.exclude,
+        outline: values.outline,
+        includeDependencies: values['with-deps']
+    };
+
+    const { paths, partials } = groupPartialSelections(positionals.map(positional => {
+        const { path: entryPath, selection } = parsePartialSpec(positional);
+        return { fsPath: path.resolve(entryPath), selection };
+    }));
+    options.partials = partials;
+    for (const fsPath of paths) {
+        if (!fs.existsSync(fsPath)) {
+            fail(`${fsPath} does not exist`, EXIT_FAILURE);
+        }
+    }
+
+    const collected = await collectAndProcessFiles(host, paths, options, hooks);
+    if (!collected) { process.exit(EXIT_FAILURE); }
+    const result = renderCombinedOutput(host, collected, collected.files, options, hooks);
+    if (!result) { process.exit(EXIT_FAILURE); }
+
+    const output = joinSections(result.rendered);
+    if (values.out) {
+        fs.writeFileSync(path.resolve(values.out), output);
+    } else {
+        process.stdout.write(output);
+    }
+    if (values.summary) {
+        printProcessingSummary(collected, result.summary, line => process.stderr.write(`${line}\n`));
+    }
+    if (result.budgetWarning) {
+        hooks.showWarning(result.budgetWarning);
+    }
+}
+
+main().then(
+    () => { process.exitCode = EXIT_OK; },
+    error => fail(error instanceof Error ? error.message : String(error), EXIT_FAILURE)
+);
@@ -0,0 +1,64 @@
+// src/combineSet.ts
+//
+// The combine set: files and parts of files collected from the editor one selection at a time,
+// then combined together. Kept in workspace state as `path#L120-300` entries.
+import * as vscode from 'vscode';
+import { combineFiles } from './fileProcessor';
+import { formatPartialSpec, groupPartialSelections, parsePartialSpec } from './partialRanges';
+import { PartialSelection } from './types';
+
+const COMBINE_SET_KEY = 'fileCombine.combineSet';
+
+function readCombineSet(state: vscode.Memento): string[] {
+    return state.get<string[]>(COMBINE_SET_KEY, []);
+}
+
+/**
+ * Adds each selection in the active editor to the combine set as a line range, or the whole file
+ * when nothing is selected.
+ */
+export async function addSelectionToCombineSet(state: vscode.Memento, extensionUri: vscode.Uri) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.scheme !== 'file') {
+        vscode.window.showWarningMessage('Open a file to add its selection to the combine set.');
+        return;
+    }
+    const fsPath = editor.document.uri.fsPath;
+    const selections: (PartialSelection | undefined)[] = editor.selections
+        .filter(selection => !selection.isEmpty)
+        .map(selection => ({
+            startLine: selection.start.line + 1,
+            // A selection ending at the start of a line does not include that line.
+            endLine: selection.end.character === 0 && selection.end.line > selection.start.line ? selection.end.line : selection.end.line + 1
+        }));
+    const added = (selections.length > 0 ? selections : [undefined]).map(selection => formatPartialSpec(fsPath, selection));
+
+    const combineSet = readCombineSet(state);
+    const updated = [...combineSet, ...added.filter(entry => !combineSet.includes(entry))];
+    await state.update(COMBINE_SET_KEY, updated);
+
+    const label = added.map(entry => vscode.workspace.asRelativePath(entry)).join(', ');
+    const choice = await vscode.window.showInformationMessage(`Added ${label} to the combine set (${updated.length} entries).`, 'Combine Now');
+    if (choice === 'Combine Now') {
+        await combineCombineSet(state, extensionUri);
+    }
+}
+
+export async function combineCombineSet(state: vscode.Memento, extensionUri: vscode.Uri) {
+    const combineSet = readCombineSet(state);
+    if (combineSet.length === 0) {
+        vscode.window.showInformationMessage('The combine set is empty. Use "Add Selection to Combine Set" in an editor to add to it.');
+        return;
+    }
+    const { paths, partials } = groupPartialSelections(combineSet.map(entry => {
+        const { path: fsPath, selection } = parsePartialSpec(entry);
+        return { fsPath, selection };
+    }));
+    await combineFiles(paths.map(fsPath => vscode.Uri.file(fsPath)), extensionUri, { partials });
+}
+
+export async function clearCombineSet(state: vscode.Memento) {
+    const count = readCombineSet(state).length;
+    await state.update(COMBINE_SET_KEY, undefined);
+    vscode.window.showInformationMessage(count > 0 ? `Removed ${count} entries from the combine set.` : 'The combine set is already empty.');
+}
@@ -0,0 +1,969 @@
+// src/combiner.ts
+//
+// The editor-independent combine pipeline: ignore resolution, file collection, processing and
+// rendering. Everything here goes through a CombineHost, so the extension and the CLI share it.
+import * as path from 'path';
+import ignore from 'ignore';
+import {
+    CachedProcessedFile, CombineHooks, CombineHost, CombineOptions, CombinedDocument, ContentDirective, ContentTransform, FileOrder, FormatOptions, GitDiffMode, IgnoreFileEntry,
+    IgnorePattern, LineRange, MatchedRule, OutputFormat, OutputOptions, PartialSelection, PathExplanation, ProcessedFile, ProcessingSummary,
+    RenderedDocument
+} from './types';
+import { createTreeStructure, generateTreeView } from './treeView';
+import { debugLog, formatFileSize, mapWithConcurrency, shortContentHash } from './utils';
+import { DEFAULT_TOKENIZER, getTokenizer, Tokenizer } from './tokenizer';
+import { applyTokenBudget } from './tokenBudget';
+import { CONVERSION_LABELS, formatOutlineSavings, formatRedactionCounts, formatTokenCount, formatTransformSavings, getFormatter, renderPromptTemplate, renderSections } from './formatters';
+import { getLanguageId } from './languages';
+import { BUILTIN_REDACTION_RULES, compileCustomRedactionRules, redactSecrets, RedactionRule } from './redaction';
+import { createOutline } from './outline';
+import { resolveDependencies } from './dependencyGraph';
+import { applyContentTransform, CONTENT_TRANSFORM_SETTINGS, CONTENT_TRANSFORMS, isContentTransform } from './contentTransforms';
+import { createPriorityRules, FILE_ORDERS, sortFiles } from './fileOrder';
+import { convertFileFormat, detectGeneratedFile } from './fileFormats';
+import { extractLineRanges, findTypeScriptSymbol, isLineRange, numberLines, parsePartialSpec } from './partialRanges';
+
+// Lazily import the isText function from the ESM-only 'istextorbinary' package.
+// This creates a top-level promise that resolves to the `isText` function itself.
+// We will await this promise inside processFile, ensuring the module is only loaded once.
+const isTextPromise = import('istextorbinary').then(module => module.isText);
+
+// Parsed ignore files by path. Kept across runs; the extension deletes entries when the files change.
+export const ignoreFileCache = new Map<string, IgnoreFileEntry>();
+
+// A matcher plus its `!pattern` rules; `mark` traces a rule back to its file and line.
+interface CompiledRules {
+    matcher: ignore.Ignore;
+    negations: { pattern: string; mark?: string }[];
+}
+
+type CompiledIgnoreMap = Map<string, CompiledRules>;
+
+interface CollectedPath {
+    fsPath: string;
+    size: number;
+    mtime: number;
+}
+
+// Per directory, one matcher per transform, so `!pattern` lines can switch a transform off again.
+type CompiledDirectiveMap = Map<string, Map<ContentTransform, ignore.Ignore>>;
+
+// Everything processFile needs that is fixed for a whole run.
+interface FileProcessingContext {
+    tokenizer: Tokenizer;
+    redactionRules: RedactionRule[] | null;
+    displayPath(fsPath: string): string;
+    shouldOutline(relativePath: string): boolean;
+    transformsFor(fsPath: string): Set<ContentTransform>;
+    partsFor(fsPath: string): PartialSelection[];
+    lineNumbers: boolean;
+    formats: FormatOptions;
+}
+
+// Content transforms that never add or remove lines, so they can be applied to numbered files.
+const LINE_PRESERVING_TRANSFORMS = new Set<ContentTransform>(['trim-trailing-whitespace']);
+
+export const DEFAULT_EXCLUDE_PATTERNS = [
+    'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'dist/**', 'build/**', 'node_modules/**',
+    '*.min.js', '*.bundle.js', 'tsconfig.tsbuildinfo', '.next/**', '*.svg', '*.jpg', '*.png', '*.ico',
+    '.env*', '*.log', 'coverage/**', '.idea/**', '.vscode/**', "uv.lock"
+];
+
+const DEFAULT_MAX_FILES = 2000;
+const DEFAULT_MAX_TOTAL_SIZE_MB = 50;
+const PROCESS_CONCURRENCY = 16;
+
+const DEFAULT_MODEL_TOKEN_BUDGETS: { [model: string]: number } = {
+    'gpt-4o': 128000, 'gpt-4.1': 1047576, 'o3': 200000, 'claude-sonnet-4': 200000, 'gemini-2.5-pro': 1048576
+};
+
+export interface CollectedFiles {
+    files: ProcessedFile[];
+    summary: ProcessingSummary;
+    tokenizer: Tokenizer;
+    // Null when `redactSecrets` is off. Context sections are redacted with the same rules when rendered.
+    redactionRules: RedactionRule[] | null;
+    startTime: number;
+    // The path shown in the output for a file or folder of this run.
+    displayPath(fsPath: string): string;
+}
+
+export interface CombineResult {
+    summary: ProcessingSummary;
+    rendered: RenderedDocument;
+    languageId: string;
+    // Set when the output is larger than the `targetModel` token budget.
+    budgetWarning?: string;
+}
+
+// Reads complete out of order, so per-file summary lists are put back into collection order.
+function sortSummaryByPathOrder(summary: ProcessingSummary, relativePaths: string[]) {
+    const order = new Map(relativePaths.map((relativePath, index) => [relativePath, index]));
+    const byOrder = (a: string, b: string) => (order.get(a) ?? 0) - (order.get(b) ?? 0);
+    summary.binaryFiles.sort(byOrder);
+    summary.redactions.sort((a, b) => byOrder(a.path, b.path));
+    summary.outlinedFiles.sort((a, b) => byOrder(a.path, b.path));
+    summary.generatedFiles.sort((a, b) => byOrder(a.path, b.path));
+    summary.convertedFiles.sort((a, b) => byOrder(a.path, b.path));
+}
+
+/**
+ * Output paths are relative to the workspace folder containing them. When the selection spans
+ * several folders they are prefixed with the folder name, so `app/src/index.ts` and
+ * `lib/src/index.ts` stay apart in the output and the file structure tree.
+ */
+function createDisplayPath(host: CombineHost, paths: string[]): (fsPath: string) => string {
+    const roots = new Set(paths.map(fsPath => host.workspaceRootFor(fsPath)).filter(root => root !== undefined));
+    if (roots.size <= 1) {
+        return fsPath => host.relativePath(fsPath);
+    }
+    return fsPath => {
+        const root = host.workspaceRootFor(fsPath);
+        if (!root) { return host.relativePath(fsPath); }
+        const name = host.workspaceFolderName(root);
+        return fsPath === root ? name : `${name}/${host.relativePath(fsPath)}`;
+    };
+}
+
+function createEmptySummary(): ProcessingSummary {
+    return {
+        totalFiles: 0, processedFiles: 0, ignoredFiles: [], excludedFiles: [], matchedRules: {},
+        binaryFiles: [], generatedFiles: [], convertedFiles: [], truncatedFiles: [], droppedFiles: [], redactions: [], outlinedFiles: [], transformSavings: {}, contextSections: [], totalSize: 0, estimatedTokens: 0, tokenizer: '', timings: {}
+    };
+}
+
+// Adds what processing one file recorded to the run's summary.
+function mergeFileSummary(summary: ProcessingSummary, fileSummary: ProcessingSummary) {
+    summary.binaryFiles.push(...fileSummary.binaryFiles);
+    summary.generatedFiles.push(...fileSummary.generatedFiles);
+    summary.convertedFiles.push(...fileSummary.convertedFiles);
+    summary.redactions.push(...fileSummary.redactions);
+    summary.outlinedFiles.push(...fileSummary.outlinedFiles);
+    for (const [transform, saved] of Object.entries(fileSummary.transformSavings)) {
+        summary.transformSavings[transform] = (summary.transformSavings[transform] ?? 0) + saved;
+    }
+}
+
+const EXCLUDE_PATTERNS_SOURCE = 'fileCombine.excludePatterns';
+
+function compileRules(patterns: { pattern: string; mark?: string }[]): CompiledRules {
+    const matcher = ignore();
+    patterns.forEach(pattern => matcher.add(pattern));
+    return {
+        matcher,
+        negations: patterns.filter(({ pattern }) => pattern.startsWith('!'))
+    };
+}
+
+// The rule deciding `posixPath`. `ignore` reports the rule that ignored a path but not the `!pattern`
+// that re-included it, so that one is found by matching the negations on their own, last one first.
+function testRules(rules: CompiledRules, posixPath: string): { pattern: string; mark?: string; negative: boolean } | undefined {
+    const { ignored, unignored, rule } = rules.matcher.test(posixPath);
+    if (ignored && rule) { return { pattern: rule.pattern, mark: rule.mark, negative: false }; }
+    if (!unignored) { return undefined; }
+    const negation = [...rules.negations].reverse().find(({ pattern }) => ignore().add(pattern.slice(1)).ignores(posixPath));
+    return negation ? { ...negation, negative: true } : undefined;
+}
+
+// The `excludePatterns` rule deciding `relativePath`: one that excludes it, or a `!pattern` that keeps it.
+function matchExcludePatterns(relativePath: string, globalExcluder: CompiledRules): MatchedRule | undefined {
+    // A workspace root, or a path outside the workspace, has no relative path to match against.
+    if (!ignore.isPathValid(relativePath)) { return undefined; }
+    const rule = testRules(globalExcluder, relativePath);
+    return rule ? { source: EXCLUDE_PATTERNS_SOURCE, pattern: rule.pattern, negative: rule.negative } : undefined;
+}
+
+// One matcher per directory for its `.gitignore` and `.filecombine` together. Each rule is marked with
+// its file and line, so a match can be traced back to it.
+function compileIgnoreFiles(entries: IgnoreFileEntry[]): CompiledIgnoreMap {
+    const patternsByDir = new Map<string, { pattern: string; mark: string }[]>();
+    for (const entry of entries) {
+        const dirPath = path.dirname(entry.filePath);
+        if (!patternsByDir.has(dirPath)) {
+            patternsByDir.set(dirPath, []);
+        }
+        patternsByDir.get(dirPath)!.push(...entry.patterns.map(({ pattern, line }) => ({ pattern, mark: `${path.basename(entry.filePath)}:${line}` })));
+    }
+    return new Map(Array.from(patternsByDir, ([dirPath, patterns]) => [dirPath, compileRules(patterns)]));
+}
+
+/**
+ * Checks `fsPath` against the ignore files from its directory up to `workspaceRoot`, innermost first,
+ * and returns the rules that matched, up to and including the first that ignores it. A `!pattern`
+ * only re-includes the path for rules in the same directory; an outer ignore file can still ignore it.
+ */
+function matchIgnoreFiles(fsPath: string, isDirectory: boolean, workspaceRoot: string | undefined, compiledIgnores: CompiledIgnoreMap): MatchedRule[] {
+    const matches: MatchedRule[] = [];
+    let currentDir = isDirectory ? fsPath : path.dirname(fsPath);
+    while (workspaceRoot && currentDir.startsWith(workspaceRoot)) {
+        const rules = compiledIgnores.get(currentDir);
+        const posixPath = path.relative(currentDir, fsPath).split(path.sep).join(path.posix.sep);
+        const rule = rules && posixPath ? testRules(rules, posixPath) : undefined;
+        if (rule) {
+            const [fileName, line] = (rule.mark ?? '').split(':');
+            matches.push({ source: path.join(currentDir, fileName), pattern: rule.pattern, line: Number(line) || undefined, negative: rule.negative });
+            if (!rule.negative) { break; }
+        }
+        if (currentDir === workspaceRoot) { break; }
+        const parentDir = path.dirname(currentDir);
+        if (parentDir === currentDir) { break; }
+        currentDir = parentDir;
+    }
+    return matches;
+}
+
+/**
+ * Explains whether `fsPath` would be combined, checking the same rules as `collectAndProcessFiles`:
+ * `excludePatterns` first, then the ignore files from the path up to its workspace folder.
+ */
+export async function explainPath(host: CombineHost, fsPath: string, options: CombineOptions = {}): Promise<PathExplanation> {
+    const excludePatterns = options.excludePatterns ?? host.config.get<string[]>('excludePatterns', DEFAULT_EXCLUDE_PATTERNS);
+    const relativePath = host.relativePath(fsPath);
+    const rules: MatchedRule[] = [];
+
+    const exclusion = matchExcludePatterns(relativePath, compileRules(excludePatterns.map(pattern => ({ pattern }))));
+    if (exclusion) {
+        rules.push(exclusion);
+        if (!exclusion.negative) {
+            return { path: relativePath, included: false, rules };
+        }
+    }
+
+    const stats = await host.fs.stat(fsPath);
+    const compiledIgnores = compileIgnoreFiles(await getAllRelevantIgnoreFiles(host, fsPath));
+    rules.push(...matchIgnoreFiles(fsPath, stats?.type === 'directory', host.workspaceRootFor(fsPath), compiledIgnores));
+    return { path: relativePath, included: rules.every(rule => rule.negative), rules };
+}
+
+/**
+ * Collects every file under `paths` that survives the ignore rules and processes it. Resolves to
+ * undefined when cancelled through `hooks`.
+ */
+export async function collectAndProcessFiles(
+    host: CombineHost,
+    paths: string[],
+    options: CombineOptions,
+    hooks: CombineHooks
+): Promise<CollectedFiles | undefined> {
+    const startTime = Date.now();
+    const summary = createEmptySummary();
+    // Pre-seeded paths are skipped like files that were already collected.
+    const processedFilePaths = new Set<string>(options.skipPaths);
+
+    const config = host.config;
+    const excludePatterns = options.excludePatterns ?? config.get<string[]>('excludePatterns', DEFAULT_EXCLUDE_PATTERNS);
+    const globalExcluder = compileRules(excludePatterns.map(pattern => ({ pattern })));
+    const tokenizer = await getTokenizer(config.get<string>('tokenizer', DEFAULT_TOKENIZER));
+    summary.tokenizer = tokenizer.name;
+
+    let redactionRules: RedactionRule[] | null = null;
+    if (config.get<boolean>('redactSecrets', true)) {
+        const custom = compileCustomRedactionRules(config.get<(string | { name?: string; pattern: string })[]>('redactionPatterns', []));
+        if (custom.invalid.length > 0) {
+            hooks.showWarning(`Ignoring invalid redaction patterns: ${custom.invalid.join(', ')}`);
+        }
+        redactionRules = [...BUILTIN_REDACTION_RULES, ...custom.rules];
+    }
+
+    const outlineMatcher = ignore().add(config.get<string[]>('outlinePatterns', []));
+    const shouldOutline = (relativePath: string) =>
+        options.outline === true || (ignore.isPathValid(relativePath) && outlineMatcher.ignores(relativePath));
+
+    // Dependencies go through the same ignore rules as the selection itself.
+    let allPaths = paths;
+    const dependencyPaths = new Set<string>();
+    if (options.includeDependencies) {
+        hooks.reportProgress('Resolving dependencies');
+        const dependencyStartTime = Date.now();
+        const dependencies = await resolveDependencies(host, paths, config.get<number>('dependencyDepth', 2));
+        dependencies.forEach(dependency => dependencyPaths.add(dependency));
+        allPaths = [...paths, ...dependencies];
+        summary.timings.resolveDependencies = Date.now() - dependencyStartTime;
+    }
+    const displayPath = createDisplayPath(host, allPaths);
+
+    // --- REFACTORED IGNORE LOGIC ---
+    const allRelevantIgnoreFiles: IgnoreFileEntry[] = [];
+    const uniqueStartDirs = new Set<string>();
+
+    for (const fsPath of allPaths) {
+        const stats = await host.fs.stat(fsPath);
+        if (!stats) {
+            debugLog(`Could not stat ${fsPath} for ignore file collection`);
+            continue;
+        }
+        uniqueStartDirs.add(stats.type === 'directory' ? fsPath : path.dirname(fsPath));
+    }
+
+    const foundIgnoreFiles = new Set<string>();
+    for (const dir of uniqueStartDirs) {
+        const collected = await getAllRelevantIgnoreFiles(host, dir);
+        for (const entry of collected) {
+            if (!foundIgnoreFiles.has(entry.filePath)) {
+                allRelevantIgnoreFiles.push(entry);
+                foundIgnoreFiles.add(entry.filePath);
+            }
+        }
+    }
+
+    const compiledIgnores = compileIgnoreFiles(allRelevantIgnoreFiles);
+    // --- END REFACTORED IGNORE LOGIC ---
+
+    const compiledDirectives = compileDirectives(allRelevantIgnoreFiles);
+    const partials = collectPartials(options.partials, allRelevantIgnoreFiles);
+    const enabledTransforms = CONTENT_TRANSFORMS.filter(transform => config.get<boolean>(CONTENT_TRANSFORM_SETTINGS[transform], false));
+    const context: FileProcessingContext = {
+        tokenizer,
+        redactionRules,
+        displayPath,
+        shouldOutline,
+        transformsFor: fsPath => resolveTransforms(fsPath, enabledTransforms, compiledDirectives),
+        partsFor: fsPath => partials.get(fsPath) ?? [],
+        lineNumbers: config.get<boolean>('lineNumbers', false),
+        formats: {
+            renderNotebooks: config.get<boolean>('renderNotebooks', true),
+            dataSampleRows: config.get<number>('dataSampleRows', 20),
+            jsonShapeThreshold: config.get<number>('jsonShapeThresholdKB', 256) * 1024,
+            skipGeneratedFiles: config.get<boolean>('skipGeneratedFiles', true)
+        }
+    };
+
+    const collectStartTime = Date.now();
+    const collectedPaths = (await Promise.all(allPaths.map(fsPath =>
+        collectFiles(host, fsPath, summary, processedFilePaths, hooks, compiledIgnores, globalExcluder, displayPath)
+    ))).flat();
+    summary.timings.collectFiles = Date.now() - collectStartTime;
+    summary.totalFiles = collectedPaths.length;
+
+    const maxFiles = config.get<number>('maxFiles', DEFAULT_MAX_FILES);
+    const maxTotalSize = config.get<number>('maxTotalSizeMB', DEFAULT_MAX_TOTAL_SIZE_MB) * 1024 * 1024;
+    const collectedSize = collectedPaths.reduce((total, file) => total + file.size, 0);
+    if ((maxFiles > 0 && collectedPaths.length > maxFiles) || (maxTotalSize > 0 && collectedSize > maxTotalSize)) {
+        const proceed = await hooks.confirm(
+            `The selection contains ${collectedPaths.length.toLocaleString()} files (${formatFileSize(collectedSize)}), over the `
+            + `fileCombine.maxFiles / fileCombine.maxTotalSizeMB limits. Combine them anyway?`
+        );
+        if (!proceed) { return undefined; }
+    }
+
+    const explicitFilePaths = new Set(paths);
+    const processStartTime = Date.now();
+    let completed = 0;
+    // Files are read concurrently, but results keep the collection order.
+    const results = await mapWithConcurrency(collectedPaths, PROCESS_CONCURRENCY, async ({ fsPath, size, mtime }) => {
+        if (hooks.isCancelled()) { return null; }
+        const isExplicitSelection = explicitFilePaths.has(fsPath);
+        const result = await processFileCached(host, { fsPath, size, mtime }, isExplicitSelection, summary, context, options.fileCache, hooks);
+        completed++;
+        hooks.reportProgress(`Processing ${path.basename(fsPath)} (${completed}/${collectedPaths.length})`, 100 / collectedPaths.length);
+        if (result) {
+            result.isExplicitSelection = isExplicitSelection;
+            result.isDependency = dependencyPaths.has(fsPath);
+            const diff = options.diffs?.get(fsPath);
+            if (diff !== undefined) {
+                attachDiff(result, diff, options.diffMode ?? 'both', summary, tokenizer, redactionRules);
+            }
+        }
+        return result;
+    });
+    sortSummaryByPathOrder(summary, collectedPaths.map(file => displayPath(file.fsPath)));
+    summary.timings.processFiles = Date.now() - processStartTime;
+
+    // Settings rules rank first, then `@priority` lines from the outermost `.filecombine` inwards.
+    const priorityRules = [
+        ...createPriorityRules(config.get<string[]>('priorityPatterns', []), host.workspaceRoots),
+        ...allRelevantIgnoreFiles
+            .filter(entry => entry.priority.length > 0)
+            .sort((a, b) => a.filePath.length - b.filePath.length)
+            .flatMap(entry => createPriorityRules(entry.priority, [path.dirname(entry.filePath)]))
+    ];
+    const configuredOrder = config.get<FileOrder>('fileOrder', 'tree');
+    const fileOrder = FILE_ORDERS.includes(configuredOrder) ? configuredOrder : 'tree';
+    const files = sortFiles(results.filter((file): file is ProcessedFile => file !== null), fileOrder, allPaths, priorityRules);
+
+    return hooks.isCancelled() ? undefined : { files, summary, tokenizer, redactionRules, startTime, displayPath };
+}
+
+/**
+ * Applies the token budget to `files`, builds the file structure tree and renders the output.
+ * Resolves to undefined, after warning through `hooks`, when there is nothing to output.
+ */
+export function renderCombinedOutput(
+    host: CombineHost,
+    collected: CollectedFiles,
+    files: ProcessedFile[],
+    options: CombineOptions,
+    hooks: Pick<CombineHooks, 'showWarning'>
+): CombineResult | undefined {
+    const { summary, tokenizer } = collected;
+    const config = host.config;
+    let processedFiles = files;
+
+    // `{{selection}}` is editor text like any file's, so it is redacted the same way.
+    const selection = options.promptTemplate?.values.selection;
+    const promptTemplate = options.promptTemplate && selection && collected.redactionRules
+        ? { ...options.promptTemplate, values: { ...options.promptTemplate.values, selection: redactAndRecord(selection, 'selection', summary, collected.redactionRules) } }
+        : options.promptTemplate;
+
+    // Context sections were asked for explicitly, so the files make room for them in the token budget.
+    const contextSections = (options.contextSections ?? []).map(section => collected.redactionRules
+        ? { ...section, content: redactAndRecord(section.content, section.title, summary, collected.redactionRules) }
+        : section);
+    summary.contextSections = contextSections.map(section => ({ kind: section.kind, title: section.title, tokens: tokenizer.countTokens(section.content) }));
+    const contextTokens = summary.contextSections.reduce((total, section) => total + section.tokens, 0);
+
+    const maxTokens = config.get<number>('maxTokens', 0);
+    if (maxTokens > 0) {
+        const budgetStartTime = Date.now();
+        const budget = applyTokenBudget(processedFiles, Math.max(maxTokens - contextTokens, 1), tokenizer);
+        processedFiles = budget.included;
+        summary.truncatedFiles = budget.truncated;
+        summary.droppedFiles = budget.dropped;
+        summary.timings.tokenBudget = Date.now() - budgetStartTime;
+    }
+
+    for (const file of processedFiles) {
+        summary.processedFiles++;
+        summary.totalSize += file.size;
+        summary.estimatedTokens += file.tokens;
+    }
+
+    summary.estimatedTokens += contextTokens;
+
+    if (summary.processedFiles === 0) {
+        hooks.showWarning('No text files found.');
+        return undefined;
+    }
+
+    const processedPaths = processedFiles.map(file => file.path);
+
+    const treeStartTime = Date.now();
+    let treeView = '';
+    if (processedPaths.length > 1) {
+        const labels = new Map(processedFiles.filter(file => file.isDependency).map(file => [file.path, 'dependency']));
+        const tree = createTreeStructure(processedPaths, labels);
+        treeView = generateTreeView(tree);
+    }
+    summary.timings.treeGeneration = Date.now() - treeStartTime;
+    summary.timings.total = Date.now() - collected.startTime;
+
+    const targetModel = config.get<string>('targetModel', '');
+    const modelBudgets = { ...DEFAULT_MODEL_TOKEN_BUDGETS, ...config.get<{ [model: string]: number }>('modelTokenBudgets', {}) };
+    const tokenBudget = targetModel ? modelBudgets[targetModel] : undefined;
+    const overBudget = tokenBudget !== undefined && summary.estimatedTokens > tokenBudget;
+
+    const outputOptions: OutputOptions = {
+        llmInstructions: options.llmInstructions ?? config.get<string>('llmInstructions', ''),
+        showProcessingSummary: config.get<boolean>('showProcessingSummary', false),
+        showIgnoredFiles: config.get<boolean>('showIgnoredFiles', true),
+        fileAnchors: config.get<boolean>('fileAnchors', false),
+        explainIgnoredFiles: config.get<boolean>('explainIgnoredFiles', false),
+        showTimings: config.get<boolean>('showTimings', true),
+        showFileStructure: config.get<boolean>('showFileStructure', true),
+        maxTokens
+    };
+    const doc: CombinedDocument = {
+        summary, files: processedFiles, contextSections, treeView,
+        ignoredGroups: groupIgnoredFiles(collected.displayPath, summary),
+        tokenBudget: tokenBudget !== undefined ? { model: targetModel, limit: tokenBudget, exceeded: overBudget } : undefined,
+        options: outputOptions
+    };
+    let formatter = getFormatter(options.outputFormat ?? config.get<OutputFormat>('outputFormat', 'markdown'));
+    // A template lays out the document as text around the files, which would break the structure of JSON or XML.
+    if (options.promptTemplate && formatter.format !== 'markdown') {
+        hooks.showWarning(`Prompt templates produce markdown, so markdown is used instead of ${formatter.format}.`);
+        formatter = getFormatter('markdown');
+    }
+
+    return {
+        summary,
+        rendered: promptTemplate ? renderPromptTemplate(formatter, doc, promptTemplate) : renderSections(formatter, doc),
+        languageId: formatter.languageId,
+        budgetWarning: overBudget
+            ? `Combined output is ${summary.estimatedTokens.toLocaleString()} tokens, over the ${tokenBudget!.toLocaleString()} token budget for ${targetModel}.`
+            : undefined
+    };
+}
+
+function groupIgnoredFiles(displayPath: (fsPath: string) => string, summary: ProcessingSummary): { source: string; paths: string[] }[] {
+    const groupedIgnores = new Map<string, string[]>();
+    for (const ignored of summary.ignoredFiles) {
+        const source = displayPath(ignored.reason);
+        if (!groupedIgnores.has(source)) {
+            groupedIgnores.set(source, []);
+        }
+        groupedIgnores.get(source)!.push(ignored.path);
+    }
+    return Array.from(groupedIgnores.entries(), ([source, paths]) => ({ source, paths }));
+}
+
+export function printProcessingSummary(collected: CollectedFiles, summary: ProcessingSummary, log: (line: string) => void = console.log) {
+    log('--- Processing Summary ---');
+    log(`Total files found: ${summary.totalFiles}`);
+    log(`Files processed: ${summary.processedFiles}`);
+    log(`Total size: ${formatFileSize(summary.totalSize)}`);
+    log(formatTokenCount(summary));
+
+    if (summary.ignoredFiles.length > 0) {
+        log('Files ignored by project rules:');
+        for (const group of groupIgnoredFiles(collected.displayPath, summary)) {
+            log(`  By rules in ./${group.source}:`);
+            group.paths.forEach(p => log(`    - ${p}`));
+        }
+    }
+    if (summary.excludedFiles.length > 0) {
+        log('Files excluded by global settings:');
+        summary.excludedFiles.forEach(f => log(`  - ${f}`));
+    }
+    if (summary.binaryFiles.length > 0) {
+        log('Binary files skipped:');
+        summary.binaryFiles.forEach(f => log(`  - ${f}`));
+    }
+    if (summary.generatedFiles.length > 0) {
+        log('Generated files skipped:');
+        summary.generatedFiles.forEach(f => log(`  - ${f.path} (${f.reason})`));
+    }
+    if (summary.redactions.length > 0) {
+        log('Secrets redacted:');
+        summary.redactions.forEach(r => log(`  - ${r.path} (${formatRedactionCounts(r.counts)})`));
+    }
+    if (summary.outlinedFiles.length > 0) {
+        log(`Files reduced to an outline (${formatOutlineSavings(summary)}):`);
+        summary.outlinedFiles.forEach(f => log(`  - ${f.path} (${f.fullTokens.toLocaleString()} -> ${f.outlineTokens.toLocaleString()} tokens)`));
+    }
+    if (summary.convertedFiles.length > 0) {
+        log('Files converted by format:');
+        summary.convertedFiles.forEach(f => log(`  - ${f.path} (${CONVERSION_LABELS[f.conversion]}: ${f.description})`));
+    }
+    if (Object.keys(summary.transformSavings).length > 0) {
+        log(`Tokens saved by content transforms: ${formatTransformSavings(summary)}`);
+    }
+    if (summary.contextSections.length > 0) {
+        log('Context sections:');
+        summary.contextSections.forEach(c => log(`  - ${c.title} (${c.tokens.toLocaleString()} tokens)`));
+    }
+    if (summary.truncatedFiles.length > 0) {
+        log('Files truncated to fit the token budget:');
+        summary.truncatedFiles.forEach(f => log(`  - ${f.path} (${f.omittedLines} lines omitted)`));
+    }
+    if (summary.droppedFiles.length > 0) {
+        log('Files dropped to fit the token budget:');
+        summary.droppedFiles.forEach(f => log(`  - ${f}`));
+    }
+    log('Timings:');
+    for (const [stage, time] of Object.entries(summary.timings)) {
+        log(`  - ${stage}: ${time}ms`);
+    }
+    log('--------------------------');
+}
+
+async function collectFiles(
+    host: CombineHost,
+    fsPath: string,
+    summary: ProcessingSummary,
+    processedFilePaths: Set<string>,
+    hooks: CombineHooks,
+    compiledIgnores: CompiledIgnoreMap,
+    globalExcluder: CompiledRules,
+    displayPath: (fsPath: string) => string
+): Promise<CollectedPath[]> {
+    if (hooks.isCancelled()) { return []; }
+
+    try {
+        const stats = await host.fs.stat(fsPath);
+        if (!stats) {
+            debugLog(`${fsPath} no longer exists, skipping`);
+            return [];
+        }
+        const exclusion = matchExcludePatterns(host.relativePath(fsPath), globalExcluder);
+        if (exclusion && !exclusion.negative) {
+            const excludedPath = displayPath(fsPath);
+            if (!summary.excludedFiles.includes(excludedPath)) {
+                summary.excludedFiles.push(excludedPath);
+                summary.matchedRules[excludedPath] = exclusion;
+            }
+            return [];
+        }
+
+        const ignoreRule = matchIgnoreFiles(fsPath, stats.type === 'directory', host.workspaceRootFor(fsPath), compiledIgnores)
+            .find(rule => !rule.negative);
+        if (ignoreRule) {
+            const ignoredPath = displayPath(fsPath);
+            if (!summary.ignoredFiles.some(f => f.path === ignoredPath)) {
+                summary.ignoredFiles.push({ path: ignoredPath, reason: path.dirname(ignoreRule.source) });
+                summary.matchedRules[ignoredPath] = ignoreRule;
+            }
+            return [];
+        }
+
+        if (stats.type === 'file') {
+            if (processedFilePaths.has(fsPath)) { return []; }
+            processedFilePaths.add(fsPath);
+            return [{ fsPath, size: stats.size, mtime: stats.mtime }];
+        } else if (stats.type === 'directory') {
+            const dirContent = await host.fs.readDirectory(fsPath);
+            const nested = await Promise.all(dirContent.map(name =>
+                collectFiles(host, path.join(fsPath, name), summary, processedFilePaths, hooks, compiledIgnores, globalExcluder, displayPath)
+            ));
+            return nested.flat();
+        }
+    } catch (error) {
+        debugLog(`Error processing ${fsPath} in collectFiles:`, error);
+    }
+    return [];
+}
+
+async function getAllRelevantIgnoreFiles(host: CombineHost, startPath: string): Promise<IgnoreFileEntry[]> {
+    const relevantIgnoreFiles: IgnoreFileEntry[] = [];
+    // Ignore files are looked up to the root of the workspace folder that owns the path, not beyond.
+    const workspaceRoot = host.workspaceRootFor(startPath);
+    const visitedDirs = new Set<string>();
+
+    const stats = await host.fs.stat(startPath);
+    let currentDir = stats?.type === 'directory' ? startPath : path.dirname(startPath);
+
+    while (workspaceRoot && currentDir.startsWith(workspaceRoot) && !visitedDirs.has(currentDir)) {
+        visitedDirs.add(currentDir);
+        for (const ignoreFileName of ['.gitignore', '.filecombine']) {
+            const ignoreFilePath = path.join(currentDir, ignoreFileName);
+            if (ignoreFileCache.has(ignoreFilePath)) {
+                relevantIgnoreFiles.push(ignoreFileCache.get(ignoreFilePath)!);
+                continue;
+            }
+            try {
+                if (!await host.fs.stat(ignoreFilePath)) { continue; }
+                const contentBytes = await host.fs.readFile(ignoreFilePath);
+                // Line numbers are kept so a matched rule can point back at the line that declared it.
+                const lines: IgnorePattern[] = Buffer.from(contentBytes).toString().split('\n')
+                    .map((line, index) => ({ pattern: line.replace(/\r$/, ''), line: index + 1 }))
+                    .filter(({ pattern }) => pattern.trim() !== '' && !pattern.startsWith('#'));
+                const entry: IgnoreFileEntry = ignoreFileName === '.filecombine'
+                    ? parseFileCombineLines(lines, ignoreFilePath)
+                    : { filePath: ignoreFilePath, patterns: lines, directives: [], priority: [], partials: [] };
+                ignoreFileCache.set(ignoreFilePath, entry);
+                relevantIgnoreFiles.push(entry);
+            } catch (error) {
+                debugLog(`Error reading ${ignoreFileName} at ${ignoreFilePath}:`, error);
+            }
+        }
+        if (currentDir === workspaceRoot) { break; }
+        const parentPath = path.dirname(currentDir);
+        if (parentPath === currentDir) { break; }
+        currentDir = parentPath;
+    }
+    return relevantIgnoreFiles;
+}
+
+// `.filecombine` lines starting with `@` are directives, e.g. `@strip-comments src/**/*.ts`, `@priority README.md`
+// or `@only src/big.ts#L120-300`.
+function parseFileCombineLines(lines: IgnorePattern[], filePath: string): IgnoreFileEntry {
+    const patterns: IgnorePattern[] = [];
+    const directives: ContentDirective[] = [];
+    const priority: string[] = [];
+    const partials: string[] = [];
+    for (const line of lines) {
+        if (!line.pattern.startsWith('@')) {
+            patterns.push(line);
+            continue;
+        }
+        const [name, ...globs] = line.pattern.slice(1).trim().split(/\s+/);
+        if (name === 'priority') {
+            priority.push(...globs);
+            continue;
+        }
+        if (name === 'only') {
+            partials.push(...globs);
+            continue;
+        }
+        if (!isContentTransform(name)) {
+            debugLog(`Unknown directive @${name} in ${filePath}`);
+            continue;
+        }
+        directives.push({ transform: name, patterns: globs.length > 0 ? globs : ['*'] });
+    }
+    return { filePath, patterns, directives, priority, partials };
+}
+
+function compileDirectives(entries: IgnoreFileEntry[]): CompiledDirectiveMap {
+    const compiled: CompiledDirectiveMap = new Map();
+    for (const entry of entries) {
+        for (const directive of entry.directives) {
+            const dirPath = path.dirname(entry.filePath);
+            if (!compiled.has(dirPath)) {
+                compiled.set(dirPath, new Map());
+            }
+            const matchers = compiled.get(dirPath)!;
+            if (!matchers.has(directive.transform)) {
+                matchers.set(directive.transform, ignore());
+            }
+            matchers.get(directive.transform)!.add(directive.patterns);
+        }
+    }
+    return compiled;
+}
+
+// Starts from the settings, then applies directives from the outermost `.filecombine` inwards.
+function resolveTransforms(fsPath: string, enabled: ContentTransform[], compiledDirectives: CompiledDirectiveMap): Set<ContentTransform> {
+    const transforms = new Set(enabled);
+    const dirs = Array.from(compiledDirectives.keys())
+        .filter(dir => fsPath.startsWith(dir + path.sep))
+        .sort((a, b) => a.length - b.length);
+    for (const dir of dirs) {
+        const posixPath = path.relative(dir, fsPath).split(path.sep).join(path.posix.sep);
+        for (const [transform, matcher] of compiledDirectives.get(dir)!) {
+            const result = matcher.test(posixPath);
+            if (result.ignored) {
+                transforms.add(transform);
+            } else if (result.unignored) {
+                transforms.delete(transform);
+            }
+        }
+    }
+    return transforms;
+}
+
+function filterLinePreservingTransforms(transforms: Set<ContentTransform>): Set<ContentTransform> {
+    return new Set(Array.from(transforms).filter(transform => LINE_PRESERVING_TRANSFORMS.has(transform)));
+}
+
+// Records the tokens each transform removed; transforms that change nothing are not recorded.
+function transformContent(
+    content: string,
+    language: string,
+    transforms: Set<ContentTransform>,
+    summary: ProcessingSummary,
+    tokenizer: Tokenizer
+): string {
+    if (transforms.size === 0) { return content; }
+    let tokens = tokenizer.countTokens(content);
+    for (const transform of CONTENT_TRANSFORMS) {
+        if (!transforms.has(transform)) { continue; }
+        const transformed = applyContentTransform(content, transform, language);
+        if (transformed === content) { continue; }
+        const transformedTokens = tokenizer.countTokens(transformed);
+        summary.transformSavings[transform] = (summary.transformSavings[transform] ?? 0) + tokens - transformedTokens;
+        content = transformed;
+        tokens = transformedTokens;
+    }
+    return content;
+}
+
+function redactAndRecord(content: string, relativePath: string, summary: ProcessingSummary, redactionRules: RedactionRule[], keepLines = false): string {
+    const redaction = redactSecrets(content, redactionRules, keepLines);
+    if (Object.keys(redaction.counts).length === 0) {
+        return content;
+    }
+    const existing = summary.redactions.find(r => r.path === relativePath);
+    if (existing) {
+        for (const [type, count] of Object.entries(redaction.counts)) {
+            existing.counts[type] = (existing.counts[type] ?? 0) + count;
+        }
+    } else {
+        summary.redactions.push({ path: relativePath, counts: redaction.counts });
+    }
+    return redaction.content;
+}
+
+// `options.partials` plus the `@only` entries of the ignore files, keyed by file system path.
+function collectPartials(optionPartials: Map<string, PartialSelection[]> | undefined, ignoreFiles: IgnoreFileEntry[]): Map<string, PartialSelection[]> {
+    const partials = new Map(optionPartials);
+    for (const entry of ignoreFiles) {
+        for (const spec of entry.partials) {
+            const parsed = parsePartialSpec(spec);
+            if (!parsed.selection) {
+                debugLog(`Ignoring @only ${spec} in ${entry.filePath}: expected path#L<start>-<end> or path::Symbol`);
+                continue;
+            }
+            const fsPath = path.resolve(path.dirname(entry.filePath), parsed.path);
+            partials.set(fsPath, [...partials.get(fsPath) ?? [], parsed.selection]);
+        }
+    }
+    return partials;
+}
+
+// Resolves symbols to the lines they span. Symbols that cannot be found are reported and left out.
+async function resolvePartialRanges(
+    host: CombineHost,
+    fsPath: string,
+    content: string,
+    language: string,
+    parts: PartialSelection[],
+    relativePath: string,
+    hooks: CombineHooks
+): Promise<LineRange[]> {
+    const ranges: LineRange[] = [];
+    for (const part of parts) {
+        if (isLineRange(part)) {
+            ranges.push(part);
+            continue;
+        }
+        const range = await host.findSymbol?.(fsPath, part.symbol) ?? await findTypeScriptSymbol(content, fsPath, language, part.symbol);
+        if (range) {
+            ranges.push(range);
+        } else {
+            hooks.showWarning(`Symbol ${part.symbol} was not found in ${relativePath}.`);
+        }
+    }
+    return ranges;
+}
+
+// In 'diff' mode the diff replaces the file contents; in 'both' it is rendered after them.
+function attachDiff(
+    file: ProcessedFile,
+    diff: string,
+    diffMode: GitDiffMode,
+    summary: ProcessingSummary,
+    tokenizer: Tokenizer,
+    redactionRules: RedactionRule[] | null
+) {
+    if (diffMode === 'contents') { return; }
+    const redactedDiff = redactionRules ? redactAndRecord(diff, file.path, summary, redactionRules) : diff;
+    if (diffMode === 'diff') {
+        file.content = redactedDiff;
+        file.language = 'diff';
+        file.tokens = tokenizer.countTokens(redactedDiff);
+    } else {
+        file.diff = redactedDiff;
+        file.tokens += tokenizer.countTokens(redactedDiff);
+    }
+}
+
+// Falls back to the full content when the language has no outline, or the outline would not be smaller.
+async function outlineContent(content: string, fsPath: string, language: string, tokenizer: Tokenizer) {
+    try {
+        const outlined = await createOutline(content, path.basename(fsPath), language);
+        if (outlined === undefined) { return undefined; }
+        const fullTokens = tokenizer.countTokens(content);
+        const outlineTokens = tokenizer.countTokens(outlined);
+        return outlineTokens < fullTokens ? { content: outlined, fullTokens, outlineTokens } : undefined;
+    } catch (error) {
+        debugLog(`Could not outline ${fsPath}, using full content:`, error);
+        return undefined;
+    }
+}
+
+/**
+ * Processes a file, or reuses the result from `cache` when the file's size and modification time
+ * are unchanged. Results are copied out of the cache, since later steps such as attachDiff modify them.
+ */
+async function processFileCached(
+    host: CombineHost,
+    collectedPath: CollectedPath,
+    isExplicitSelection: boolean,
+    summary: ProcessingSummary,
+    context: FileProcessingContext,
+    cache: Map<string, CachedProcessedFile> | undefined,
+    hooks: CombineHooks
+): Promise<ProcessedFile | null> {
+    const { fsPath, size, mtime } = collectedPath;
+    let cached = cache?.get(fsPath);
+    if (!cached || cached.size !== size || cached.mtime !== mtime || cached.isExplicitSelection !== isExplicitSelection) {
+        const fileSummary = createEmptySummary();
+        const file = await processFile(host, fsPath, isExplicitSelection, fileSummary, context, hooks);
+        cached = { size, mtime, isExplicitSelection, file, summary: fileSummary };
+        // Read errors are not cached, so the next run tries again.
+        if (file || fileSummary.binaryFiles.length > 0 || fileSummary.generatedFiles.length > 0) {
+            cache?.set(fsPath, cached);
+        }
+    }
+    mergeFileSummary(summary, structuredClone(cached.summary));
+    return cached.file ? { ...cached.file } : null;
+}
+
+async function processFile(
+    host: CombineHost,
+    fsPath: string,
+    isExplicitSelection: boolean,
+    summary: ProcessingSummary,
+    context: FileProcessingContext,
+    hooks: CombineHooks
+): Promise<ProcessedFile | null> {
+    const { tokenizer, redactionRules } = context;
+    try {
+        // Get the isText function by awaiting our promise. On the first call, this will
+        // wait for the import; on subsequent calls, it resolves instantly.
+        const isText = await isTextPromise;
+
+        const [contentBytes, stats] = await Promise.all([host.fs.readFile(fsPath), host.fs.stat(fsPath)]);
+        const buffer = Buffer.from(contentBytes);
+        const fileSize = buffer.length;
+
+        if (!isText(path.basename(fsPath), buffer)) {
+            summary.binaryFiles.push(context.displayPath(fsPath));
+            return null;
+        }
+
+        let content = buffer.toString();
+        const relativePath = context.displayPath(fsPath);
+        const language = getLanguageId(fsPath);
+        const contentHash = shortContentHash(buffer);
+        const modifiedTime = stats?.mtime ?? 0;
+        // Text is redacted before its lines are numbered, since the rules anchored to the start of a line would miss `12 | KEY=...`.
+        // Numbered text keeps the lines of a secret spanning several, so the lines after it keep their numbers.
+        let redacted = false;
+        const redact = (text: string, keepLines = false) => {
+            const result = redactionRules ? redactAndRecord(text, relativePath, summary, redactionRules, keepLines) : text;
+            redacted ||= result !== text;
+            return result;
+        };
+
+        const parts = context.partsFor(fsPath);
+        const lineRanges = parts.length > 0 ? await resolvePartialRanges(host, fsPath, content, language, parts, relativePath, hooks) : [];
+        const partial = lineRanges.length > 0 ? extractLineRanges(content, lineRanges, text => redact(text, true)) : undefined;
+        // The parts keep their original line numbers, so outlines and content transforms are not applied to them.
+        if (partial) {
+            return {
+                fsPath, path: relativePath, content: partial.content, language, size: fileSize, tokens: tokenizer.countTokens(partial.content),
+                modifiedTime, contentHash, isExplicitSelection: false, lineRanges: partial.ranges, numbered: true, redacted
+            };
+        }
+
+        // Converted files are not outlined, transformed or numbered, since their lines are not the file's.
+        const converted = convertFileFormat(content, fsPath, language, context.formats);
+        if (converted) {
+            summary.convertedFiles.push({ path: relativePath, conversion: converted.conversion, description: converted.description });
+            const convertedContent = redact(converted.content);
+            return {
+                fsPath, path: relativePath, content: convertedContent, language: converted.language, size: fileSize, tokens: tokenizer.countTokens(convertedContent),
+                modifiedTime, contentHash, isExplicitSelection: false, conversion: converted.conversion, redacted
+            };
+        }
+        // A file selected by itself is wanted even when it looks generated.
+        if (context.formats.skipGeneratedFiles && !isExplicitSelection) {
+            const reason = detectGeneratedFile(content, language);
+            if (reason) {
+                summary.generatedFiles.push({ path: relativePath, reason });
+                return null;
+            }
+        }
+
+        let outline = false;
+        if (context.shouldOutline(host.relativePath(fsPath))) {
+            const outlined = await outlineContent(content, fsPath, language, tokenizer);
+            if (outlined) {
+                summary.outlinedFiles.push({ path: relativePath, fullTokens: outlined.fullTokens, outlineTokens: outlined.outlineTokens });
+                content = outlined.content;
+                outline = true;
+            }
+        }
+
+        // An outline has no lines of its own to number, and transforms such as strip-comments would remove the doc comments it keeps.
+        // Otherwise the numbers must match the file, so only transforms that keep every line apply.
+        const numbered = context.lineNumbers && !outline;
+        const transforms = outline ? new Set<ContentTransform>() : context.transformsFor(fsPath);
+        content = transformContent(content, language, numbered ? filterLinePreservingTransforms(transforms) : transforms, summary, tokenizer);
+        content = redact(content, numbered);
+        if (numbered) {
+            content = numberLines(content);
+        }
+
+        return {
+            fsPath, path: relativePath, content, language, size: fileSize,
+            tokens: tokenizer.countTokens(content), modifiedTime, contentHash, isExplicitSelection: false, outline, numbered, redacted
+        };
+    } catch (error) {
+        debugLog('Error in processFile:', error);
+        hooks.showError(`Error reading file: ${fsPath}`);
+        return null;
+    }
+}
@@ -0,0 +1,205 @@
+// src/contentTransforms.ts
+
+import { ContentTransform } from './types';
+
+// Applied in this order, each only when enabled for the file.
+export const CONTENT_TRANSFORMS: ContentTransform[] = ['strip-license', 'strip-comments', 'trim-trailing-whitespace', 'collapse-blank-lines'];
+
+// The `fileCombine.*` setting that enables each transform for every file.
+export const CONTENT_TRANSFORM_SETTINGS: { [transform in ContentTransform]: string } = {
+    'strip-license': 'stripLicenseHeaders',
+    'strip-comments': 'stripComments',
+    'trim-trailing-whitespace': 'trimTrailingWhitespace',
+    'collapse-blank-lines': 'collapseBlankLines'
+};
+
+interface CommentSyntax {
+    line: string[];
+    block: [string, string][];
+    // String delimiters, longest first. Triple quotes and backticks may span lines; other strings end at a newline.
+    strings: string[];
+    // Shell-like languages only treat `#` as a comment at the start of a word, e.g. not in `$#` or `a#b`.
+    lineCommentNeedsSpace?: boolean;
+    // JavaScript-like languages have regex literals, such as `/[/*]/g`, that may hold comment tokens.
+    regexLiterals?: boolean;
+}
+
+const C_STYLE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], strings: ['"', '\''] };
+const JS_STYLE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], strings: ['"', '\'', '`'], regexLiterals: true };
+const HASH_STYLE: CommentSyntax = { line: ['#'], block: [], strings: ['"', '\''] };
+const SHELL_STYLE: CommentSyntax = { line: ['#'], block: [], strings: ['"', '\''], lineCommentNeedsSpace: true };
+const MARKUP_STYLE: CommentSyntax = { line: [], block: [['<!--', '-->']], strings: [] };
+const SQL_STYLE: CommentSyntax = { line: ['--'], block: [['/*', '*/']], strings: ['\'', '"'] };
+
+const COMMENT_SYNTAX: { [languageId: string]: CommentSyntax } = {
+    typescript: JS_STYLE, tsx: JS_STYLE, javascript: JS_STYLE, jsx: JS_STYLE, dart: JS_STYLE,
+    java: C_STYLE, kotlin: C_STYLE, scala: C_STYLE, groovy: C_STYLE, c: C_STYLE, cpp: C_STYLE, objectivec: C_STYLE,
+    csharp: C_STYLE, swift: C_STYLE, php: C_STYLE, zig: C_STYLE, protobuf: C_STYLE, prisma: C_STYLE, jsonc: C_STYLE, json5: C_STYLE,
+    go: { line: ['//'], block: [['/*', '*/']], strings: ['"', '\'', '`'] },
+    // Single quotes are lifetimes as often as char literals, so only double-quoted strings are protected.
+    rust: { line: ['//'], block: [['/*', '*/']], strings: ['"'] },
+    css: { line: [], block: [['/*', '*/']], strings: ['"', '\''] },
+    scss: C_STYLE, less: C_STYLE,
+    python: { line: ['#'], block: [], strings: ['"""', '\'\'\'', '"', '\''] },
+    ruby: HASH_STYLE, perl: HASH_STYLE, r: HASH_STYLE, elixir: HASH_STYLE, julia: HASH_STYLE, graphql: HASH_STYLE,
+    powershell: { line: ['#'], block: [['<#', '#>']], strings: ['"', '\''] },
+    hcl: { line: ['#', '//'], block: [['/*', '*/']], strings: ['"'] },
+    nix: { line: ['#'], block: [['/*', '*/']], strings: ['"'] },
+    bash: SHELL_STYLE, fish: SHELL_STYLE, dockerfile: SHELL_STYLE, makefile: SHELL_STYLE, cmake: SHELL_STYLE,
+    yaml: SHELL_STYLE, toml: SHELL_STYLE, dotenv: SHELL_STYLE, gitignore: SHELL_STYLE,
+    ini: { line: ['#', ';'], block: [], strings: ['"'], lineCommentNeedsSpace: true },
+    properties: { line: ['#', '!'], block: [], strings: [], lineCommentNeedsSpace: true },
+    sql: SQL_STYLE,
+    lua: { line: ['--'], block: [['--[[', ']]']], strings: ['"', '\''] },
+    haskell: { line: ['--'], block: [['{-', '-}']], strings: ['"'] },
+    html: MARKUP_STYLE, xml: MARKUP_STYLE, vue: MARKUP_STYLE, svelte: MARKUP_STYLE, astro: MARKUP_STYLE, markdown: MARKUP_STYLE, mdx: MARKUP_STYLE
+};
+
+// A `/` after one of these starts a regex literal rather than a division. `<` and `>` are left out so JSX closing tags are not read as regexes.
+const REGEX_PRECEDER = /(?:[(,=:[!&|?{};+\-*%~^]|\b(?:return|typeof|instanceof|case|do|else|in|of|new|delete|void|throw|yield|await))\s*$/;
+const LICENSE_KEYWORDS = /\b(?:copyright|licen[cs]ed?|spdx-license-identifier|all rights reserved|permission is hereby granted)\b/i;
+
+function stringEnd(content: string, start: number, quote: string): number {
+    const multiline = quote.length === 3 || quote === '`';
+    let i = start + quote.length;
+    while (i < content.length) {
+        if (content[i] === '\\') {
+            i += 2;
+        } else if (content.startsWith(quote, i)) {
+            return i + quote.length;
+        } else if (!multiline && content[i] === '\n') {
+            return i;
+        } else {
+            i++;
+        }
+    }
+    return content.length;
+}
+
+// The end of the regex literal starting at `start`, or -1 when the line ends before it closes.
+function regexEnd(content: string, start: number): number {
+    let inClass = false;
+    for (let i = start + 1; i < content.length; i++) {
+        const char = content[i];
+        if (char === '\n') {
+            return -1;
+        } else if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            inClass = true;
+        } else if (char === ']') {
+            inClass = false;
+        } else if (char === '/' && !inClass) {
+            return i + 1;
+        }
+    }
+    return -1;
+}
+
+function startsRegex(output: string): boolean {
+    const before = output.slice(-32);
+    return REGEX_PRECEDER.test(before) || (before.trim() === '' && output.trim() === '');
+}
+
+// Newlines inside removed block comments are kept, so output lines stay aligned with the input.
+function stripComments(content: string, syntax: CommentSyntax): string {
+    let output = '';
+    let i = 0;
+    while (i < content.length) {
+        const block = syntax.block.find(([open]) => content.startsWith(open, i));
+        if (block) {
+            const close = content.indexOf(block[1], i + block[0].length);
+            // A comment that never closes is more likely a misread token than one running to the end of the file, so the rest is kept.
+            if (close === -1) {
+                output += content.slice(i);
+                break;
+            }
+            const end = close + block[1].length;
+            output += content.slice(i, end).replace(/[^\n]/g, '');
+            i = end;
+            continue;
+        }
+        const isShebang = i === 0 && content.startsWith('#!');
+        const wordStart = i === 0 || /\s/.test(content[i - 1]);
+        if (!isShebang && (wordStart || !syntax.lineCommentNeedsSpace) && syntax.line.some(token => content.startsWith(token, i))) {
+            const newline = content.indexOf('\n', i);
+            i = newline === -1 ? content.length : newline;
+            continue;
+        }
+        const regex = syntax.regexLiterals && content[i] === '/' && startsRegex(output) ? regexEnd(content, i) : -1;
+        if (regex !== -1) {
+            output += content.slice(i, regex);
+            i = regex;
+            continue;
+        }
+        const quote = syntax.strings.find(q => content.startsWith(q, i));
+        if (quote) {
+            const end = stringEnd(content, i, quote);
+            output += content.slice(i, end);
+            i = end;
+            continue;
+        }
+        output += content[i];
+        i++;
+    }
+
+    // Lines that only held a comment are dropped; lines that were blank to begin with are kept.
+    const originalLines = content.split('\n');
+    return output.split('\n')
+        .map((line, index) => (line === originalLines[index] ? line : line.trimEnd()))
+        .filter((line, index) => line.trim() !== '' || originalLines[index].trim() === '')
+        .join('\n');
+}
+
+function stripLicenseHeader(content: string, syntax: CommentSyntax): string {
+    const shebang = content.startsWith('#!') ? content.slice(0, content.indexOf('\n') + 1 || content.length) : '';
+    const rest = content.slice(shebang.length);
+    const start = rest.length - rest.trimStart().length;
+
+    let end = -1;
+    const block = syntax.block.find(([open]) => rest.startsWith(open, start));
+    if (block) {
+        const close = rest.indexOf(block[1], start + block[0].length);
+        end = close === -1 ? -1 : close + block[1].length;
+    } else if (syntax.line.some(token => rest.startsWith(token, start))) {
+        const lines = rest.slice(start).split('\n');
+        let length = 0;
+        for (const line of lines) {
+            if (!syntax.line.some(token => line.trimStart().startsWith(token))) { break; }
+            length += line.length + 1;
+        }
+        end = start + length;
+    }
+
+    if (end === -1 || !LICENSE_KEYWORDS.test(rest.slice(start, end))) {
+        return content;
+    }
+    return shebang + rest.slice(end).replace(/^\s*\n/, '');
+}
+
+/**
+ * Applies one content transform. Comment-based transforms leave files in languages without a
+ * known comment syntax unchanged.
+ */
+export function applyContentTransform(content: string, transform: ContentTransform, languageId: string): string {
+    const syntax = COMMENT_SYNTAX[languageId];
+    switch (transform) {
+        case 'strip-license':
+            return syntax ? stripLicenseHeader(content, syntax) : content;
+        case 'strip-comments':
+            return syntax ? stripComments(content, syntax) : content;
+        case 'trim-trailing-whitespace':
+            return content.replace(/[ \t]+$/gm, '');
+        case 'collapse-blank-lines':
+            return content.replace(/\n(?:[ \t]*\n){2,}/g, '\n\n');
+    }
+}
+
+// The token that starts a line comment in the language, if it has line comments.
+export function lineCommentToken(languageId: string): string | undefined {
+    return COMMENT_SYNTAX[languageId]?.line[0];
+}
+
+export function isContentTransform(name: string): name is ContentTransform {
+    return (CONTENT_TRANSFORMS as string[]).includes(name);
+}
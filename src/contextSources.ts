@@ -0,0 +1,203 @@
+// src/contextSources.ts
+//
+// Context sections gathered from the editor to go with the combined files: diagnostics for the
+// included files, the active editor's selection, and output captured from a terminal or a file.
+import * as vscode from 'vscode';
+import { ContextSection, ProcessedFile } from './types';
+import { debugLog } from './utils';
+
+const DEFAULT_OUTPUT_LINES = 200;
+// Output kept per terminal while a command runs; only the tail of it is ever used.
+const MAX_CAPTURED_CHARS = 200_000;
+const ANSI_ESCAPE = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+const SEVERITY_NAMES: { [severity in vscode.DiagnosticSeverity]: string } = {
+    [vscode.DiagnosticSeverity.Error]: 'error',
+    [vscode.DiagnosticSeverity.Warning]: 'warning',
+    [vscode.DiagnosticSeverity.Information]: 'info',
+    [vscode.DiagnosticSeverity.Hint]: 'hint'
+};
+const MIN_SEVERITIES: { [setting: string]: vscode.DiagnosticSeverity } = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint
+};
+
+// The last command run in each terminal with shell integration, with its output so far.
+const terminalCaptures = new WeakMap<vscode.Terminal, { commandLine: string; output: string }>();
+
+/**
+ * Records the output of commands run in terminals with shell integration, so it can be added as
+ * context later. Terminals without shell integration are read from their buffer instead.
+ */
+export function registerTerminalCapture(): vscode.Disposable {
+    return vscode.window.onDidStartTerminalShellExecution(async event => {
+        const capture = { commandLine: event.execution.commandLine.value, output: '' };
+        terminalCaptures.set(event.terminal, capture);
+        try {
+            for await (const data of event.execution.read()) {
+                capture.output = (capture.output + data).slice(-MAX_CAPTURED_CHARS);
+            }
+        } catch (error) {
+            debugLog('Error reading terminal output:', error);
+        }
+    });
+}
+
+function outputLines(): number {
+    return vscode.workspace.getConfiguration('fileCombine').get<number>('contextOutputLines', DEFAULT_OUTPUT_LINES);
+}
+
+function tailLines(text: string, maxLines: number): string {
+    const lines = text.replace(/\r\n?/g, '\n').trimEnd().split('\n');
+    return maxLines > 0 && lines.length > maxLines ? lines.slice(-maxLines).join('\n') : lines.join('\n');
+}
+
+// Diagnostics at or above `fileCombine.diagnosticsSeverity` for the combined files, one per line.
+export function collectDiagnostics(files: ProcessedFile[]): ContextSection | undefined {
+    const setting = vscode.workspace.getConfiguration('fileCombine').get<string>('diagnosticsSeverity', 'warning');
+    const minSeverity = MIN_SEVERITIES[setting] ?? vscode.DiagnosticSeverity.Warning;
+    const lines: string[] = [];
+    for (const file of files) {
+        const diagnostics = vscode.languages.getDiagnostics(vscode.Uri.file(file.fsPath))
+            .filter(diagnostic => diagnostic.severity <= minSeverity)
+            .sort((a, b) => a.range.start.compareTo(b.range.start));
+        for (const diagnostic of diagnostics) {
+            const { line, character } = diagnostic.range.start;
+            const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+            const origin = [diagnostic.source, code].filter(part => part !== undefined && part !== '').join(' ');
+            lines.push(`${file.path}:${line + 1}:${character + 1} ${SEVERITY_NAMES[diagnostic.severity]}${origin ? ` [${origin}]` : ''}: ${diagnostic.message}`);
+        }
+    }
+    if (lines.length === 0) { return undefined; }
+    return { kind: 'diagnostics', title: `Diagnostics (${lines.length})`, language: 'text', content: lines.join('\n') };
+}
+
+// One section per non-empty selection in the active editor, titled with its file and line range.
+export function collectSelections(): ContextSection[] {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) { return []; }
+    const relativePath = vscode.workspace.asRelativePath(editor.document.uri);
+    return editor.selections
+        .filter(selection => !selection.isEmpty)
+        .map(selection => {
+            const range = selection.start.line === selection.end.line
+                ? `${selection.start.line + 1}`
+                : `${selection.start.line + 1}-${selection.end.line + 1}`;
+            return {
+                kind: 'selection',
+                title: `Selection: ${relativePath}:${range}`,
+                language: editor.document.languageId,
+                content: editor.document.getText(selection)
+            };
+        });
+}
+
+// Copies the terminal's buffer through the clipboard, then puts back what the clipboard held.
+async function copyTerminalBuffer(terminal: vscode.Terminal): Promise<string> {
+    const previous = await vscode.env.clipboard.readText();
+    try {
+        terminal.show(true);
+        await vscode.commands.executeCommand('workbench.action.terminal.selectAll');
+        await vscode.commands.executeCommand('workbench.action.terminal.copySelection');
+        await vscode.commands.executeCommand('workbench.action.terminal.clearSelection');
+        return await vscode.env.clipboard.readText();
+    } finally {
+        await vscode.env.clipboard.writeText(previous);
+    }
+}
+
+/**
+ * The last `fileCombine.contextOutputLines` lines of the terminal's output: the last command's
+ * output when shell integration captured it, otherwise the end of the terminal's buffer.
+ */
+export async function captureTerminalOutput(terminal: vscode.Terminal): Promise<ContextSection | undefined> {
+    const capture = terminalCaptures.get(terminal);
+    let title = `Terminal: ${terminal.name}`;
+    let text: string;
+    if (capture && capture.output.trim()) {
+        title += ` ($ ${capture.commandLine})`;
+        text = capture.output;
+    } else {
+        try {
+            text = await copyTerminalBuffer(terminal);
+        } catch (error) {
+            debugLog(`Error copying the output of terminal ${terminal.name}:`, error);
+            return undefined;
+        }
+    }
+    const content = tailLines(text.replace(ANSI_ESCAPE, ''), outputLines());
+    return content ? { kind: 'terminal', title, language: 'text', content } : undefined;
+}
+
+// The last `fileCombine.contextOutputLines` lines of a log or test report file.
+export async function readOutputFile(uri: vscode.Uri): Promise<ContextSection | undefined> {
+    try {
+        const contentBytes = await vscode.workspace.fs.readFile(uri);
+        const content = tailLines(Buffer.from(contentBytes).toString().replace(ANSI_ESCAPE, ''), outputLines());
+        return content ? { kind: 'file', title: `Output: ${vscode.workspace.asRelativePath(uri)}`, language: 'text', content } : undefined;
+    } catch (error) {
+        debugLog(`Error reading output file ${uri.fsPath}:`, error);
+        vscode.window.showErrorMessage(`Could not read ${vscode.workspace.asRelativePath(uri)}.`);
+        return undefined;
+    }
+}
+
+async function pickTerminal(): Promise<vscode.Terminal | undefined> {
+    const terminals = vscode.window.terminals;
+    if (terminals.length <= 1) { return terminals[0]; }
+    const active = vscode.window.activeTerminal;
+    const picked = await vscode.window.showQuickPick(
+        terminals.map(terminal => ({
+            label: terminal.name,
+            description: [terminal === active ? 'active' : '', terminalCaptures.get(terminal)?.commandLine ?? ''].filter(Boolean).join(' · '),
+            terminal
+        })),
+        { placeHolder: 'Select the terminal to capture output from' }
+    );
+    return picked?.terminal;
+}
+
+/**
+ * Asks which context to add to a combine: diagnostics and the editor selection are gathered when
+ * combining, terminal and file output right away. Resolves to undefined when a picker is dismissed.
+ */
+export async function pickContextSources(): Promise<{ includeDiagnostics: boolean; includeSelection: boolean; sections: ContextSection[] } | undefined> {
+    const config = vscode.workspace.getConfiguration('fileCombine');
+    const items = [
+        { label: 'Diagnostics', description: 'Errors and warnings in the combined files', id: 'diagnostics', picked: config.get<boolean>('includeDiagnostics', false) },
+        { label: 'Editor Selection', description: 'The text selected in the active editor', id: 'selection', picked: config.get<boolean>('includeSelection', false) },
+        { label: 'Terminal Output...', description: 'The last command\'s output in a terminal', id: 'terminal', picked: false },
+        { label: 'Output File...', description: 'The end of a log or test report file', id: 'file', picked: false }
+    ];
+    const picked = await vscode.window.showQuickPick(items, { canPickMany: true, placeHolder: 'Select the context to add after the files' });
+    if (!picked) { return undefined; }
+    const ids = new Set(picked.map(item => item.id));
+
+    const sections: ContextSection[] = [];
+    if (ids.has('terminal')) {
+        const terminal = await pickTerminal();
+        if (!terminal) {
+            if (vscode.window.terminals.length === 0) {
+                vscode.window.showWarningMessage('There is no open terminal to capture output from.');
+            }
+            return undefined;
+        }
+        const section = await captureTerminalOutput(terminal);
+        if (section) {
+            sections.push(section);
+        } else {
+            vscode.window.showWarningMessage(`No output captured from terminal ${terminal.name}.`);
+        }
+    }
+    if (ids.has('file')) {
+        const uris = await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: 'Add Output', title: 'Select an output file' });
+        if (!uris || uris.length === 0) { return undefined; }
+        const section = await readOutputFile(uris[0]);
+        if (section) {
+            sections.push(section);
+        }
+    }
+    return { includeDiagnostics: ids.has('diagnostics'), includeSelection: ids.has('selection'), sections };
+}
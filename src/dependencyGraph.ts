@@ -0,0 +1,192 @@
+// src/dependencyGraph.ts
+
+import * as path from 'path';
+import { parse as parseJsonc } from 'jsonc-parser';
+import { CombineHost } from './types';
+import { debugLog } from './utils';
+import { getLanguageId } from './languages';
+import { loadTypeScript } from './outline';
+
+const SCRIPT_LANGUAGES = new Set(['typescript', 'tsx', 'javascript', 'jsx']);
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+// TypeScript sources are imported with the extension of their compiled output, e.g. `./util.js` for `util.ts`.
+const COMPILED_EXTENSIONS: { [extension: string]: string[] } = {
+    '.js': ['.ts', '.tsx'], '.jsx': ['.tsx'], '.mjs': ['.mts'], '.cjs': ['.cts']
+};
+const PYTHON_RELATIVE_IMPORT = /^[ \t]*from[ \t]+(\.+)([\w.]*)[ \t]+import[ \t]+\(?([^)#\n]+)/gm;
+
+interface PathMappings {
+    baseUrl?: string;
+    paths: { pattern: string; targets: string[] }[];
+}
+
+/**
+ * Walks the import graph from `startPaths` and resolves to the files they depend on, up to
+ * `maxDepth` imports away. Relative TS/JS imports and requires are followed, as are imports
+ * matching `tsconfig.json` `paths`/`baseUrl`, and Python relative imports. Package imports and
+ * files outside the workspace are not followed. The start files are not part of the result.
+ */
+export async function resolveDependencies(host: CombineHost, startPaths: string[], maxDepth: number): Promise<string[]> {
+    const resolver = new DependencyResolver(host);
+    const visited = new Set(startPaths);
+    const dependencies: string[] = [];
+    let frontier = startPaths;
+
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const fsPath of frontier) {
+            for (const dependency of await resolver.importsOf(fsPath)) {
+                if (visited.has(dependency)) { continue; }
+                visited.add(dependency);
+                dependencies.push(dependency);
+                next.push(dependency);
+            }
+        }
+        frontier = next;
+    }
+    return dependencies;
+}
+
+class DependencyResolver {
+    private readonly mappingsByDir = new Map<string, Promise<PathMappings | undefined>>();
+
+    constructor(private readonly host: CombineHost) { }
+
+    public async importsOf(fsPath: string): Promise<string[]> {
+        const language = getLanguageId(fsPath);
+        if (!SCRIPT_LANGUAGES.has(language) && language !== 'python') { return []; }
+        try {
+            const content = Buffer.from(await this.host.fs.readFile(fsPath)).toString();
+            const resolved = language === 'python'
+                ? await this.resolvePythonImports(fsPath, content)
+                : await this.resolveScriptImports(fsPath, content);
+            return resolved.filter((dependency): dependency is string =>
+                dependency !== undefined && this.host.workspaceRootFor(dependency) !== undefined
+                && !dependency.split(path.sep).includes('node_modules'));
+        } catch (error) {
+            debugLog(`Could not read imports of ${fsPath}:`, error);
+            return [];
+        }
+    }
+
+    private async resolveScriptImports(fsPath: string, content: string): Promise<(string | undefined)[]> {
+        const ts = await loadTypeScript();
+        const specifiers = ts.preProcessFile(content, true, true).importedFiles.map(file => file.fileName);
+        return Promise.all(specifiers.map(specifier => this.resolveScriptSpecifier(fsPath, specifier)));
+    }
+
+    private async resolveScriptSpecifier(fromPath: string, specifier: string): Promise<string | undefined> {
+        if (specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..') {
+            return this.resolveScriptFile(path.resolve(path.dirname(fromPath), specifier));
+        }
+        const mappings = await this.pathMappingsFor(path.dirname(fromPath));
+        if (!mappings) { return undefined; }
+        for (const mapping of mappings.paths) {
+            const wildcard = mapping.pattern.indexOf('*');
+            const prefix = wildcard === -1 ? mapping.pattern : mapping.pattern.slice(0, wildcard);
+            const suffix = wildcard === -1 ? '' : mapping.pattern.slice(wildcard + 1);
+            const matches = wildcard === -1
+                ? specifier === mapping.pattern
+                : specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length;
+            if (!matches) { continue; }
+            const captured = wildcard === -1 ? '' : specifier.slice(prefix.length, specifier.length - suffix.length);
+            for (const target of mapping.targets) {
+                const resolved = await this.resolveScriptFile(target.replace('*', captured));
+                if (resolved) { return resolved; }
+            }
+        }
+        return mappings.baseUrl ? this.resolveScriptFile(path.join(mappings.baseUrl, specifier)) : undefined;
+    }
+
+    private async resolveScriptFile(basePath: string): Promise<string | undefined> {
+        const extension = path.extname(basePath);
+        const candidates = [
+            basePath,
+            ...(COMPILED_EXTENSIONS[extension] ?? []).map(sourceExtension => basePath.slice(0, -extension.length) + sourceExtension),
+            ...SCRIPT_EXTENSIONS.map(scriptExtension => basePath + scriptExtension),
+            ...SCRIPT_EXTENSIONS.map(scriptExtension => path.join(basePath, `index${scriptExtension}`))
+        ];
+        return this.firstFile(candidates);
+    }
+
+    private async resolvePythonImports(fsPath: string, content: string): Promise<(string | undefined)[]> {
+        const resolved: Promise<string | undefined>[] = [];
+        for (const match of content.matchAll(PYTHON_RELATIVE_IMPORT)) {
+            const [, dots, modulePath, names] = match;
+            let packageDir = path.dirname(fsPath);
+            for (let i = 1; i < dots.length; i++) {
+                packageDir = path.dirname(packageDir);
+            }
+            const moduleDir = modulePath ? path.join(packageDir, ...modulePath.split('.')) : packageDir;
+            if (modulePath) {
+                resolved.push(this.firstFile([`${moduleDir}.py`, path.join(moduleDir, '__init__.py')]));
+            }
+            // `from . import a, b as c` may import submodules; names that aren't modules resolve to the package itself.
+            for (const name of names.split(',').map(part => part.trim().split(/\s+/)[0]).filter(part => /^\w+$/.test(part))) {
+                resolved.push(this.firstFile([path.join(moduleDir, `${name}.py`), path.join(moduleDir, name, '__init__.py')]));
+            }
+            if (!modulePath) {
+                resolved.push(this.firstFile([path.join(moduleDir, '__init__.py')]));
+            }
+        }
+        return Promise.all(resolved);
+    }
+
+    private async firstFile(candidates: string[]): Promise<string | undefined> {
+        for (const candidate of candidates) {
+            const stats = await this.host.fs.stat(candidate);
+            if (stats?.type === 'file') { return candidate; }
+        }
+        return undefined;
+    }
+
+    // The `paths` and `baseUrl` of the nearest tsconfig.json (or jsconfig.json) within the workspace.
+    private pathMappingsFor(dir: string): Promise<PathMappings | undefined> {
+        if (!this.mappingsByDir.has(dir)) {
+            this.mappingsByDir.set(dir, this.findPathMappings(dir));
+        }
+        return this.mappingsByDir.get(dir)!;
+    }
+
+    private async findPathMappings(dir: string): Promise<PathMappings | undefined> {
+        for (const configName of ['tsconfig.json', 'jsconfig.json']) {
+            const configPath = path.join(dir, configName);
+            if ((await this.host.fs.stat(configPath))?.type === 'file') {
+                return this.readPathMappings(configPath, new Set());
+            }
+        }
+        const workspaceRoot = this.host.workspaceRootFor(dir);
+        const parent = path.dirname(dir);
+        if (!workspaceRoot || dir === workspaceRoot || parent === dir) { return undefined; }
+        return this.pathMappingsFor(parent);
+    }
+
+    // Follows relative `extends` chains; options in the extending config win.
+    private async readPathMappings(configPath: string, seen: Set<string>): Promise<PathMappings | undefined> {
+        if (seen.has(configPath)) { return undefined; }
+        seen.add(configPath);
+        try {
+            const config = parseJsonc(Buffer.from(await this.host.fs.readFile(configPath)).toString(), [], { allowTrailingComma: true });
+            const configDir = path.dirname(configPath);
+            const inherited = typeof config?.extends === 'string' && config.extends.startsWith('.')
+                ? await this.readPathMappings(path.resolve(configDir, config.extends.endsWith('.json') ? config.extends : `${config.extends}.json`), seen)
+                : undefined;
+
+            const options = config?.compilerOptions ?? {};
+            const baseUrl = typeof options.baseUrl === 'string' ? path.resolve(configDir, options.baseUrl) : inherited?.baseUrl;
+            if (!options.paths || typeof options.paths !== 'object') {
+                return { baseUrl, paths: inherited?.paths ?? [] };
+            }
+            // `paths` entries are relative to `baseUrl` when it is set, otherwise to the config file.
+            const pathsBase = baseUrl ?? configDir;
+            const paths = Object.entries<string[]>(options.paths).map(([pattern, targets]) => ({
+                pattern,
+                targets: targets.map(target => path.resolve(pathsBase, target))
+            }));
+            return { baseUrl, paths };
+        } catch (error) {
+            debugLog(`Could not read path mappings from ${configPath}:`, error);
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,55 @@
+// src/explainPath.ts
+
+import * as vscode from 'vscode';
+import { explainPath } from './combiner';
+import { describeRule } from './formatters';
+import { MatchedRule } from './types';
+import { createVscodeHost } from './vscodeHost';
+
+const EXCLUDE_PATTERNS_SETTING = 'fileCombine.excludePatterns';
+
+function describeSource(rule: MatchedRule): string {
+    return rule.source === EXCLUDE_PATTERNS_SETTING ? rule.source : `./${vscode.workspace.asRelativePath(rule.source)}`;
+}
+
+async function openRule(rule: MatchedRule) {
+    if (rule.source === EXCLUDE_PATTERNS_SETTING) {
+        await vscode.commands.executeCommand('workbench.action.openSettings', EXCLUDE_PATTERNS_SETTING);
+        return;
+    }
+    const editor = await vscode.window.showTextDocument(vscode.Uri.file(rule.source));
+    if (rule.line === undefined) { return; }
+    const line = editor.document.lineAt(Math.min(rule.line - 1, editor.document.lineCount - 1));
+    editor.selection = new vscode.Selection(line.range.start, line.range.end);
+    editor.revealRange(line.range, vscode.TextEditorRevealType.InCenter);
+}
+
+/**
+ * Shows whether a path would be combined and which `.gitignore`, `.filecombine` or
+ * `fileCombine.excludePatterns` rule decided it, with a button to jump to that rule.
+ */
+export async function explainPathCommand(uri: vscode.Uri | undefined) {
+    if (!uri) {
+        vscode.window.showWarningMessage('Select a file or folder, or open a file, to explain.');
+        return;
+    }
+    const explanation = await explainPath(createVscodeHost(), uri.fsPath);
+    const deciding = explanation.included ? undefined : explanation.rules[explanation.rules.length - 1];
+
+    const message = explanation.included
+        ? `${explanation.path} is included in combined output.`
+        : `${explanation.path} is ${deciding!.source === EXCLUDE_PATTERNS_SETTING ? 'excluded' : 'ignored'} by ${describeRule(deciding!)} in ${describeSource(deciding!)}.`;
+    const detail = explanation.rules.length === 0
+        ? 'No ignore rule matches this path.'
+        : explanation.rules.map(rule => `${rule.negative ? 'Re-included' : 'Matched'} by ${describeRule(rule)} in ${describeSource(rule)}`).join('\n');
+
+    // The rule to open: the one that left the path out, or the negation that kept it in.
+    const rule = deciding ?? explanation.rules[explanation.rules.length - 1];
+    const action = rule ? `Open ${rule.source === EXCLUDE_PATTERNS_SETTING ? 'Setting' : describeSource(rule)}` : undefined;
+    const choice = action
+        ? await vscode.window.showInformationMessage(message, { modal: true, detail }, action)
+        : await vscode.window.showInformationMessage(message, { modal: true, detail });
+    if (rule && choice === action) {
+        await openRule(rule);
+    }
+}
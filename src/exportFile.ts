@@ -0,0 +1,266 @@
+// src/exportFile.ts
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CachedProcessedFile, CombineHost, CombineOptions, OutputFormat } from './types';
+import { CombineResult, ignoreFileCache, printProcessingSummary, renderCombinedOutput } from './combiner';
+import { collectWithProgress, windowHooks } from './fileProcessor';
+import { joinSections } from './formatters';
+import { createVscodeHost } from './vscodeHost';
+import { debugLog } from './utils';
+
+const DEFAULT_EXPORT_PATH = '.vscode/file-combine/{profile}-{date}.{ext}';
+const FORMAT_EXTENSIONS: { [format in OutputFormat]: string } = { markdown: 'md', xml: 'xml', json: 'json' };
+const IGNORE_FILE_NAMES = ['.gitignore', '.filecombine'];
+// Changes arriving within this window, e.g. from a "Save All", are handled by a single re-run.
+const WATCH_DEBOUNCE_MS = 500;
+
+// A selection or profile to export. `name` fills the `{profile}` placeholder of the export path.
+export interface ExportTarget {
+    uris: vscode.Uri[];
+    options: CombineOptions;
+    name?: string;
+}
+
+const watchSessions = new Map<string, WatchSession>();
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
+
+/**
+ * Expands the `fileCombine.exportPath` template. Relative paths are resolved against the workspace
+ * folder of the first selected path. Returns undefined when there is no folder to resolve against.
+ */
+function resolveExportPath(host: CombineHost, target: ExportTarget, now = new Date()): string | undefined {
+    const template = host.config.get<string>('exportPath', DEFAULT_EXPORT_PATH) || DEFAULT_EXPORT_PATH;
+    const format = target.options.outputFormat ?? host.config.get<OutputFormat>('outputFormat', 'markdown');
+    const root = host.workspaceRootFor(target.uris[0].fsPath) ?? host.workspaceRoots[0];
+    const values: { [placeholder: string]: string } = {
+        date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+        time: `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+        profile: (target.name ?? 'selection').replace(/[\\/:*?"<>|]/g, '-'),
+        workspace: root ? host.workspaceFolderName(root) : '',
+        format,
+        ext: FORMAT_EXTENSIONS[format] ?? 'txt'
+    };
+    const expanded = template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+    if (path.isAbsolute(expanded)) { return path.normalize(expanded); }
+    return root ? path.join(root, expanded) : undefined;
+}
+
+// Combines the target and writes it to `outputPath`. Resolves to undefined when nothing was written.
+async function writeExport(
+    host: CombineHost,
+    target: ExportTarget,
+    outputPath: string,
+    location: vscode.ProgressLocation,
+    fileCache?: Map<string, CachedProcessedFile>
+): Promise<CombineResult | undefined> {
+    // The export file may sit inside the selection; it must not be combined into itself.
+    const options: CombineOptions = { ...target.options, review: false, skipPaths: [outputPath], fileCache };
+    const isWatchRun = fileCache !== undefined;
+    const collected = await collectWithProgress(host, target.uris.map(uri => uri.fsPath), options, location, !isWatchRun);
+    if (!collected) { return undefined; }
+    const result = renderCombinedOutput(host, collected, collected.files, options, windowHooks);
+    if (!result) { return undefined; }
+
+    try {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(outputPath)));
+        await vscode.workspace.fs.writeFile(vscode.Uri.file(outputPath), Buffer.from(joinSections(result.rendered)));
+    } catch (error) {
+        debugLog(`Error writing ${outputPath}:`, error);
+        vscode.window.showErrorMessage(`Could not write ${outputPath}: ${error instanceof Error ? error.message : error}`);
+        return undefined;
+    }
+    printProcessingSummary(collected, result.summary);
+    return result;
+}
+
+function resolveExportPathOrWarn(host: CombineHost, target: ExportTarget): string | undefined {
+    if (target.uris.length === 0) {
+        vscode.window.showWarningMessage('No files or folders selected.');
+        return undefined;
+    }
+    const outputPath = resolveExportPath(host, target);
+    if (!outputPath) {
+        vscode.window.showWarningMessage('Open a workspace folder or set an absolute fileCombine.exportPath to export combined files.');
+    }
+    return outputPath;
+}
+
+export async function exportToFile(target: ExportTarget) {
+    const host = createVscodeHost();
+    const outputPath = resolveExportPathOrWarn(host, target);
+    if (!outputPath) { return; }
+
+    const result = await writeExport(host, target, outputPath, vscode.ProgressLocation.Notification);
+    if (!result) { return; }
+    if (result.budgetWarning) {
+        vscode.window.showWarningMessage(result.budgetWarning);
+    }
+    const choice = await vscode.window.showInformationMessage(`Combined files written to ${host.relativePath(outputPath)}.`, 'Open');
+    if (choice === 'Open') {
+        await vscode.window.showTextDocument(vscode.Uri.file(outputPath));
+    }
+}
+
+/**
+ * Exports the target, then keeps the export file up to date as the selected files and the ignore
+ * files that apply to them change. The export path is resolved once, so `{date}` and `{time}` refer
+ * to when watching started.
+ */
+export async function startWatching(target: ExportTarget) {
+    const host = createVscodeHost();
+    const outputPath = resolveExportPathOrWarn(host, target);
+    if (!outputPath) { return; }
+
+    watchSessions.get(outputPath)?.dispose();
+    const fileCache = new Map<string, CachedProcessedFile>();
+    const result = await writeExport(host, target, outputPath, vscode.ProgressLocation.Notification, fileCache);
+    if (!result) { return; }
+    if (result.budgetWarning) {
+        vscode.window.showWarningMessage(result.budgetWarning);
+    }
+
+    const session = await WatchSession.create(host, target, outputPath, fileCache);
+    watchSessions.set(outputPath, session);
+    vscode.window.showInformationMessage(`Watching for changes. ${host.relativePath(outputPath)} will be kept up to date.`);
+}
+
+// Stops the watch writing to `outputPath`, or asks which one to stop when several are running.
+export async function stopWatching(outputPath?: string) {
+    let session = outputPath ? watchSessions.get(outputPath) : undefined;
+    if (!session && watchSessions.size === 1) {
+        session = watchSessions.values().next().value;
+    } else if (!session && watchSessions.size > 1) {
+        const picked = await vscode.window.showQuickPick(
+            Array.from(watchSessions.keys(), watchedPath => ({ label: vscode.workspace.asRelativePath(watchedPath), watchedPath })),
+            { placeHolder: 'Select the export to stop updating' }
+        );
+        if (!picked) { return; }
+        session = watchSessions.get(picked.watchedPath);
+    }
+    if (!session) {
+        vscode.window.showInformationMessage('No combined files are being watched.');
+        return;
+    }
+    session.dispose();
+}
+
+export function stopAllWatching() {
+    for (const session of Array.from(watchSessions.values())) {
+        session.dispose();
+    }
+}
+
+class WatchSession implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly selectedPaths: string[];
+    private timer: NodeJS.Timeout | undefined;
+    // Re-runs are chained, so a change arriving during a run starts another one after it.
+    private running: Promise<unknown> = Promise.resolve();
+    private disposed = false;
+
+    public static async create(host: CombineHost, target: ExportTarget, outputPath: string, fileCache: Map<string, CachedProcessedFile>) {
+        const session = new WatchSession(host, target, outputPath, fileCache);
+        await session.watch();
+        return session;
+    }
+
+    private constructor(
+        private readonly host: CombineHost,
+        private readonly target: ExportTarget,
+        private readonly outputPath: string,
+        private readonly fileCache: Map<string, CachedProcessedFile>
+    ) {
+        this.selectedPaths = target.uris.map(uri => uri.fsPath);
+    }
+
+    private async watch() {
+        for (const fsPath of this.selectedPaths) {
+            const stats = await this.host.fs.stat(fsPath);
+            const pattern = stats?.type === 'directory'
+                ? new vscode.RelativePattern(vscode.Uri.file(fsPath), '**/*')
+                : new vscode.RelativePattern(vscode.Uri.file(path.dirname(fsPath)), path.basename(fsPath));
+            this.addWatcher(pattern, uri => this.onFileChanged(uri.fsPath));
+        }
+        // Ignore files above the selection apply too, so each owning workspace folder is watched for them.
+        const roots = new Set(this.selectedPaths.map(fsPath => this.host.workspaceRootFor(fsPath)).filter(root => root !== undefined));
+        for (const root of roots) {
+            const pattern = new vscode.RelativePattern(vscode.Uri.file(root), `**/{${IGNORE_FILE_NAMES.join(',')}}`);
+            this.addWatcher(pattern, uri => this.onIgnoreFileChanged(uri.fsPath));
+        }
+
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('fileCombine')) {
+                this.fileCache.clear();
+                this.schedule();
+            }
+        }));
+
+        const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        statusBarItem.text = `$(eye) ${path.basename(this.outputPath)}`;
+        statusBarItem.tooltip = `File Combine is keeping ${vscode.workspace.asRelativePath(this.outputPath)} up to date. Click to stop watching.`;
+        statusBarItem.command = { title: 'Stop Watching', command: 'file-combine.stopWatching', arguments: [this.outputPath] };
+        statusBarItem.show();
+        this.disposables.push(statusBarItem);
+    }
+
+    private addWatcher(pattern: vscode.GlobPattern, onChange: (uri: vscode.Uri) => void) {
+        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        watcher.onDidChange(onChange);
+        watcher.onDidCreate(onChange);
+        watcher.onDidDelete(onChange);
+        this.disposables.push(watcher);
+    }
+
+    private onFileChanged(fsPath: string) {
+        if (fsPath === this.outputPath) { return; }
+        // A deleted folder takes the cached files below it along.
+        for (const cachedPath of Array.from(this.fileCache.keys())) {
+            if (cachedPath === fsPath || cachedPath.startsWith(fsPath + path.sep)) {
+                this.fileCache.delete(cachedPath);
+            }
+        }
+        if (IGNORE_FILE_NAMES.includes(path.basename(fsPath))) {
+            this.onIgnoreFileChanged(fsPath);
+            return;
+        }
+        this.schedule();
+    }
+
+    private onIgnoreFileChanged(fsPath: string) {
+        const dir = path.dirname(fsPath);
+        const applies = this.selectedPaths.some(selected =>
+            selected === dir || selected.startsWith(dir + path.sep) || dir.startsWith(selected + path.sep));
+        if (!applies) { return; }
+        ignoreFileCache.delete(fsPath);
+        // `.filecombine` directives change how files are processed, not only which files are collected.
+        if (path.basename(fsPath) === '.filecombine') {
+            this.fileCache.clear();
+        }
+        this.schedule();
+    }
+
+    private schedule() {
+        if (this.disposed) { return; }
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.running = this.running.then(() => this.disposed
+                ? undefined
+                : writeExport(this.host, this.target, this.outputPath, vscode.ProgressLocation.Window, this.fileCache)
+            ).catch(error => debugLog(`Error updating ${this.outputPath}:`, error));
+        }, WATCH_DEBOUNCE_MS);
+    }
+
+    public dispose() {
+        this.disposed = true;
+        clearTimeout(this.timer);
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.fileCache.clear();
+        if (watchSessions.get(this.outputPath) === this) {
+            watchSessions.delete(this.outputPath);
+        }
+    }
+}
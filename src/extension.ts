@@ -1,18 +1,112 @@
 // src/extension.ts
 
 import * as vscode from 'vscode';
-import { combineFiles, ignoreFileCache } from './fileProcessor';
+import { combineFiles } from './fileProcessor';
+import { pickContextSources, registerTerminalCapture } from './contextSources';
+import { ignoreFileCache } from './combiner';
+import { OUTPUT_FORMATS } from './formatters';
+import { editProfile, exportProfile, runProfile, saveSelectionAsProfile } from './profiles';
+import { explainPathCommand } from './explainPath';
+import { openReferenceCommand } from './openReference';
+import { applyResponseCommand, registerResponsePreview } from './applyResponse';
+import { addSelectionToCombineSet, clearCombineSet, combineCombineSet } from './combineSet';
+import { exportToFile, startWatching, stopAllWatching, stopWatching } from './exportFile';
+import { combineWithPromptTemplate } from './promptTemplates';
+import { combineDiffAgainstRef, combineGitChanges } from './gitSource';
+import { combineGlobMatches, combineOpenEditors } from './fileSources';
+import { CombineReviewView } from './reviewView';
+import { OutputFormat } from './types';
 import { debugLog } from './utils';
 
+// Explorer menus pass (clicked, selected[]), editor title menus pass (uri, context) and the
+// Command Palette passes nothing, in which case the active editor's file is used.
+function resolveCommandUris(uri?: vscode.Uri, uris?: unknown): vscode.Uri[] {
+    if (Array.isArray(uris) && uris.length > 0) {
+        return uris;
+    }
+    if (uri instanceof vscode.Uri) {
+        return [uri];
+    }
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    return activeUri && activeUri.scheme === 'file' ? [activeUri] : [];
+}
+
 export function activate(context: vscode.ExtensionContext) {
     debugLog('Activating file-combine extension');
     
-    const disposable = vscode.commands.registerCommand('file-combine.combineFiles', async (uri: vscode.Uri, uris: vscode.Uri[]) => {
-        const selectedUris = uris && uris.length > 0 ? uris : [uri];
-        await combineFiles(selectedUris, context.extensionUri);
+    const disposable = vscode.commands.registerCommand('file-combine.combineFiles', async (uri?: vscode.Uri, uris?: unknown) => {
+        await combineFiles(resolveCommandUris(uri, uris), context.extensionUri);
+    });
+
+    const combineAsDisposable = vscode.commands.registerCommand('file-combine.combineFilesAs', async (uri?: vscode.Uri, uris?: unknown) => {
+        const selectedUris = resolveCommandUris(uri, uris);
+        const outputFormat = await vscode.window.showQuickPick(OUTPUT_FORMATS, { placeHolder: 'Select an output format' });
+        if (!outputFormat) { return; }
+        await combineFiles(selectedUris, context.extensionUri, { outputFormat: outputFormat as OutputFormat });
     });
 
-    context.subscriptions.push(disposable);
+    CombineReviewView.register(context);
+
+    // Parsed ignore files are cached across runs; drop an entry as soon as its file changes.
+    const ignoreFileWatcher = vscode.workspace.createFileSystemWatcher('**/{.gitignore,.filecombine}');
+    const invalidateIgnoreFile = (uri: vscode.Uri) => { ignoreFileCache.delete(uri.fsPath); };
+    ignoreFileWatcher.onDidChange(invalidateIgnoreFile);
+    ignoreFileWatcher.onDidCreate(invalidateIgnoreFile);
+    ignoreFileWatcher.onDidDelete(invalidateIgnoreFile);
+
+    context.subscriptions.push(
+        disposable,
+        combineAsDisposable,
+        ignoreFileWatcher,
+        registerTerminalCapture(),
+        registerResponsePreview(),
+        { dispose: stopAllWatching },
+        vscode.commands.registerCommand('file-combine.reviewAndCombine', async (uri?: vscode.Uri, uris?: unknown) => {
+            await combineFiles(resolveCommandUris(uri, uris), context.extensionUri, { review: true });
+        }),
+        vscode.commands.registerCommand('file-combine.combineFilesAsOutline', async (uri?: vscode.Uri, uris?: unknown) => {
+            await combineFiles(resolveCommandUris(uri, uris), context.extensionUri, { outline: true });
+        }),
+        vscode.commands.registerCommand('file-combine.combineWithDependencies', async (uri?: vscode.Uri, uris?: unknown) => {
+            await combineFiles(resolveCommandUris(uri, uris), context.extensionUri, { includeDependencies: true });
+        }),
+        vscode.commands.registerCommand('file-combine.combineWithContext', async (uri?: vscode.Uri, uris?: unknown) => {
+            const sources = await pickContextSources();
+            if (!sources) { return; }
+            await combineFiles(resolveCommandUris(uri, uris), context.extensionUri, {
+                includeDiagnostics: sources.includeDiagnostics, includeSelection: sources.includeSelection, contextSections: sources.sections
+            });
+        }),
+        vscode.commands.registerCommand('file-combine.combineWithPromptTemplate', async (uri?: vscode.Uri, uris?: unknown) => {
+            await combineWithPromptTemplate(resolveCommandUris(uri, uris), context.extensionUri);
+        }),
+        vscode.commands.registerCommand('file-combine.exportToFile', async (uri?: vscode.Uri, uris?: unknown) => {
+            await exportToFile({ uris: resolveCommandUris(uri, uris), options: {} });
+        }),
+        vscode.commands.registerCommand('file-combine.watchAndExport', async (uri?: vscode.Uri, uris?: unknown) => {
+            await startWatching({ uris: resolveCommandUris(uri, uris), options: {} });
+        }),
+        vscode.commands.registerCommand('file-combine.stopWatching', (outputPath?: string) => stopWatching(outputPath)),
+        vscode.commands.registerCommand('file-combine.exportProfile', () => exportProfile(false)),
+        vscode.commands.registerCommand('file-combine.watchProfile', () => exportProfile(true)),
+        vscode.commands.registerCommand('file-combine.combineGlob', () => combineGlobMatches(context.extensionUri)),
+        vscode.commands.registerCommand('file-combine.combineOpenEditors', () => combineOpenEditors(context.extensionUri)),
+        vscode.commands.registerCommand('file-combine.runProfile', () => runProfile(context.extensionUri)),
+        vscode.commands.registerCommand('file-combine.saveSelectionAsProfile', async (uri?: vscode.Uri, uris?: unknown) => {
+            await saveSelectionAsProfile(resolveCommandUris(uri, uris));
+        }),
+        vscode.commands.registerCommand('file-combine.editProfile', () => editProfile()),
+        vscode.commands.registerCommand('file-combine.combineGitChanges', () => combineGitChanges(context.extensionUri)),
+        vscode.commands.registerCommand('file-combine.combineDiffAgainstRef', () => combineDiffAgainstRef(context.extensionUri)),
+        vscode.commands.registerCommand('file-combine.addSelectionToCombineSet', () => addSelectionToCombineSet(context.workspaceState, context.extensionUri)),
+        vscode.commands.registerCommand('file-combine.combineCombineSet', () => combineCombineSet(context.workspaceState, context.extensionUri)),
+        vscode.commands.registerCommand('file-combine.clearCombineSet', () => clearCombineSet(context.workspaceState)),
+        vscode.commands.registerCommand('file-combine.explainPath', async (uri?: vscode.Uri, uris?: unknown) => {
+            await explainPathCommand(resolveCommandUris(uri, uris)[0]);
+        }),
+        vscode.commands.registerCommand('file-combine.openReference', () => openReferenceCommand()),
+        vscode.commands.registerCommand('file-combine.applyResponse', () => applyResponseCommand())
+    );
     debugLog('Extension activated successfully');
 }
 
@@ -0,0 +1,217 @@
+// src/fileFormats.ts
+//
+// Format-aware processing: notebooks are rendered as their cells, CSV and TSV files cut to a
+// sample of rows and large JSON files replaced by their shape. Minified and generated files,
+// which cost many tokens for little insight, are detected so they can be left out.
+import * as path from 'path';
+import { lineCommentToken } from './contentTransforms';
+import { FormatConversion, FormatOptions } from './types';
+import { formatFileSize } from './utils';
+
+export interface ConvertedContent {
+    content: string;
+    language: string;
+    conversion: FormatConversion;
+    // What was kept, for the processing summary, e.g. `20 of 15,234 rows`.
+    description: string;
+}
+
+interface NotebookCell {
+    cell_type?: string;
+    source?: string | string[];
+    outputs?: unknown[];
+}
+
+interface Notebook {
+    cells?: NotebookCell[];
+    metadata?: { kernelspec?: { language?: string }; language_info?: { name?: string } };
+}
+
+// JSON shapes list at most this many keys per object and look this deep.
+const MAX_SHAPE_KEYS = 40;
+const MAX_SHAPE_DEPTH = 8;
+// Arrays are described from this many of their items.
+const SHAPE_SAMPLE_ITEMS = 50;
+
+// Only the first lines are checked for a marker, so files that mention one in passing are kept.
+const GENERATED_MARKER_LINES = 10;
+const GENERATED_MARKER = /@generated\b|\bDO NOT EDIT\b|<auto-generated\b|\b[Tt]his file (?:is|was|has been) (?:automatically |auto-)?generated\b/;
+const MINIFIED_MIN_SIZE = 2048;
+const MINIFIED_AVERAGE_LINE_LENGTH = 300;
+const MINIFIED_LINE_LENGTH = 10_000;
+// Languages whose lines are paragraphs or records rather than code, so long lines say nothing about them.
+const LONG_LINE_LANGUAGES = new Set(['markdown', 'mdx', 'text', 'rst', 'latex', 'csv', 'tsv']);
+
+/**
+ * Renders a Jupyter notebook in the percent format (`# %%` before each cell), with markdown cells
+ * as comments and every output, including embedded images, removed.
+ */
+function renderNotebook(content: string): ConvertedContent | undefined {
+    let notebook: Notebook;
+    try {
+        notebook = JSON.parse(content);
+    } catch {
+        return undefined;
+    }
+    if (!Array.isArray(notebook.cells)) { return undefined; }
+
+    const language = (notebook.metadata?.kernelspec?.language ?? notebook.metadata?.language_info?.name ?? 'python').toLowerCase();
+    const comment = lineCommentToken(language) ?? '#';
+    let outputs = 0;
+    const cells = notebook.cells.map((cell, index) => {
+        const source = (Array.isArray(cell.source) ? cell.source.join('') : cell.source ?? '').trimEnd();
+        outputs += Array.isArray(cell.outputs) ? cell.outputs.length : 0;
+        if (cell.cell_type === 'code') {
+            return `${comment} %% Cell ${index + 1}\n${source}`;
+        }
+        const commented = source.split('\n').map(line => line ? `${comment} ${line}` : comment).join('\n');
+        return `${comment} %% Cell ${index + 1} [${cell.cell_type ?? 'markdown'}]\n${commented}`;
+    });
+    return {
+        content: cells.join('\n\n'),
+        language,
+        conversion: 'notebook',
+        description: `${cells.length} cells, ${outputs} ${outputs === 1 ? 'output' : 'outputs'} removed`
+    };
+}
+
+// Splits CSV text into records; a newline inside a quoted field does not end the record.
+function splitRecords(content: string): string[] {
+    const records: string[] = [];
+    let start = 0;
+    let quoted = false;
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '"') {
+            quoted = !quoted;
+        } else if (content[i] === '\n' && !quoted) {
+            records.push(content.slice(start, i).replace(/\r$/, ''));
+            start = i + 1;
+        }
+    }
+    if (start < content.length) {
+        records.push(content.slice(start));
+    }
+    return records.filter(record => record.trim() !== '');
+}
+
+// The header row and the first `maxRows` rows, with a marker giving the rows left out.
+function sampleRows(content: string, language: string, maxRows: number): ConvertedContent | undefined {
+    const [header, ...rows] = splitRecords(content);
+    if (maxRows <= 0 || rows.length <= maxRows) { return undefined; }
+    const omitted = rows.length - maxRows;
+    return {
+        content: [header, ...rows.slice(0, maxRows), `... [${omitted.toLocaleString()} more rows omitted]`].join('\n'),
+        language,
+        conversion: 'sample',
+        description: `${maxRows.toLocaleString()} of ${rows.length.toLocaleString()} rows`
+    };
+}
+
+/**
+ * Describes the values found at one place in a JSON document: primitives by type, objects by
+ * their keys (`?` marks keys some of the objects lack) and arrays as `[count × item shape]`.
+ */
+function describeShape(values: unknown[], indent: string, depth: number): string {
+    const objects: { [key: string]: unknown }[] = [];
+    const arrays: unknown[][] = [];
+    const primitives = new Set<string>();
+    for (const value of values) {
+        if (value === null) {
+            primitives.add('null');
+        } else if (Array.isArray(value)) {
+            arrays.push(value);
+        } else if (typeof value === 'object') {
+            objects.push(value as { [key: string]: unknown });
+        } else {
+            primitives.add(typeof value);
+        }
+    }
+
+    const shapes: string[] = [];
+    if (objects.length > 0) {
+        shapes.push(depth >= MAX_SHAPE_DEPTH ? '{...}' : describeObjects(objects, indent, depth));
+    }
+    if (arrays.length > 0) {
+        const lengths = arrays.map(array => array.length);
+        const [shortest, longest] = [Math.min(...lengths), Math.max(...lengths)];
+        const count = shortest === longest ? shortest.toLocaleString() : `${shortest.toLocaleString()}-${longest.toLocaleString()}`;
+        const items = arrays.slice(0, SHAPE_SAMPLE_ITEMS).flatMap(array => array.slice(0, SHAPE_SAMPLE_ITEMS));
+        shapes.push(items.length === 0 ? '[]' : depth >= MAX_SHAPE_DEPTH ? `[${count} × ...]` : `[${count} × ${describeShape(items, indent, depth + 1)}]`);
+    }
+    shapes.push(...primitives);
+    return shapes.join(' | ');
+}
+
+function describeObjects(objects: { [key: string]: unknown }[], indent: string, depth: number): string {
+    const keys = new Map<string, unknown[]>();
+    for (const object of objects) {
+        for (const [key, value] of Object.entries(object)) {
+            const values = keys.get(key);
+            if (values) {
+                values.push(value);
+            } else {
+                keys.set(key, [value]);
+            }
+        }
+    }
+    if (keys.size === 0) { return '{}'; }
+    const inner = `${indent}  `;
+    const entries = Array.from(keys).slice(0, MAX_SHAPE_KEYS).map(([key, values]) =>
+        `${inner}${JSON.stringify(key)}${values.length < objects.length ? '?' : ''}: ${describeShape(values, inner, depth + 1)}`);
+    if (keys.size > MAX_SHAPE_KEYS) {
+        entries.push(`${inner}... ${(keys.size - MAX_SHAPE_KEYS).toLocaleString()} more keys`);
+    }
+    return `{\n${entries.join(',\n')}\n${indent}}`;
+}
+
+function summariseJson(content: string, size: number): ConvertedContent | undefined {
+    let document: unknown;
+    try {
+        document = JSON.parse(content);
+    } catch {
+        return undefined;
+    }
+    return { content: describeShape([document], '', 0), language: 'text', conversion: 'shape', description: `${formatFileSize(size)} document` };
+}
+
+/**
+ * Converts notebooks, CSV and TSV files over `dataSampleRows` rows and JSON files over
+ * `jsonShapeThreshold` bytes. Returns undefined for other files, which are output as they are.
+ */
+export function convertFileFormat(content: string, fileName: string, language: string, options: FormatOptions): ConvertedContent | undefined {
+    if (path.extname(fileName).toLowerCase() === '.ipynb') {
+        return options.renderNotebooks ? renderNotebook(content) : undefined;
+    }
+    if (language === 'csv' || language === 'tsv') {
+        return sampleRows(content, language, options.dataSampleRows);
+    }
+    if (language === 'json' && options.jsonShapeThreshold > 0) {
+        const size = Buffer.byteLength(content);
+        return size > options.jsonShapeThreshold ? summariseJson(content, size) : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Says why a file looks minified or generated: a marker such as `@generated` or `DO NOT EDIT`
+ * near the top, or lines far longer than hand-written code. Returns undefined for other files.
+ */
+export function detectGeneratedFile(content: string, language: string): string | undefined {
+    const header = content.slice(0, 4096).split('\n').slice(0, GENERATED_MARKER_LINES).join('\n');
+    const marker = GENERATED_MARKER.exec(header);
+    if (marker) { return `"${marker[0]}" marker`; }
+    if (content.length < MINIFIED_MIN_SIZE || LONG_LINE_LANGUAGES.has(language)) { return undefined; }
+
+    let lines = 0;
+    let longest = 0;
+    for (let start = 0; start < content.length; lines++) {
+        const end = content.indexOf('\n', start);
+        const lineEnd = end < 0 ? content.length : end;
+        longest = Math.max(longest, lineEnd - start);
+        start = lineEnd + 1;
+    }
+    const average = Math.round(content.length / Math.max(lines, 1));
+    if (average > MINIFIED_AVERAGE_LINE_LENGTH) { return `minified, ${average.toLocaleString()} characters per line`; }
+    if (longest > MINIFIED_LINE_LENGTH) { return `a line of ${longest.toLocaleString()} characters`; }
+    return undefined;
+}
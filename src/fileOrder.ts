@@ -0,0 +1,85 @@
+// src/fileOrder.ts
+
+import * as path from 'path';
+import ignore from 'ignore';
+import { FileOrder, ProcessedFile } from './types';
+
+export const FILE_ORDERS: FileOrder[] = ['tree', 'selection', 'path', 'size', 'modified'];
+
+// A `priorityPatterns` entry or `@priority` line, matched against paths relative to each of `baseDirs`:
+// the workspace folders for settings, the `.filecombine` file's directory for `@priority` lines.
+export interface PriorityRule {
+    baseDirs: string[];
+    matcher: ignore.Ignore;
+}
+
+/**
+ * Compares two relative POSIX paths in the order `generateTreeView` lists them: at the first
+ * differing segment folders come before files, otherwise names compare alphabetically.
+ */
+export function compareTreeOrder(a: string, b: string): number {
+    const aParts = a.split('/');
+    const bParts = b.split('/');
+    for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+        if (aParts[i] === bParts[i]) { continue; }
+        const aIsFile = i === aParts.length - 1;
+        const bIsFile = i === bParts.length - 1;
+        if (aIsFile !== bIsFile) {
+            return aIsFile ? 1 : -1;
+        }
+        return aParts[i].localeCompare(bParts[i]);
+    }
+    return aParts.length - bParts.length;
+}
+
+export function createPriorityRules(patterns: string[], baseDirs: string[]): PriorityRule[] {
+    return patterns.map(pattern => ({ baseDirs, matcher: ignore().add(pattern) }));
+}
+
+// Files matching an earlier rule sort first; files matching no rule rank after all of them.
+function priorityRank(file: ProcessedFile, rules: PriorityRule[]): number {
+    for (let i = 0; i < rules.length; i++) {
+        const { baseDirs, matcher } = rules[i];
+        const matches = baseDirs.some(baseDir => {
+            if (!file.fsPath.startsWith(baseDir + path.sep)) { return false; }
+            const relativePath = path.relative(baseDir, file.fsPath).split(path.sep).join(path.posix.sep);
+            return matcher.ignores(relativePath);
+        });
+        if (matches) { return i; }
+    }
+    return rules.length;
+}
+
+// The position of the first selected path that is, or contains, the file.
+function selectionRank(file: ProcessedFile, selection: string[]): number {
+    const index = selection.findIndex(selected => file.fsPath === selected || file.fsPath.startsWith(selected + path.sep));
+    return index === -1 ? selection.length : index;
+}
+
+/**
+ * Sorts files for output: priority rules first, then `order`, with tree order breaking ties so
+ * the same selection always produces the same document. `selection` holds the selected paths
+ * in the order they were selected.
+ */
+export function sortFiles(files: ProcessedFile[], order: FileOrder, selection: string[], priorityRules: PriorityRule[]): ProcessedFile[] {
+    const keyed = files.map(file => ({ file, priority: priorityRank(file, priorityRules), selection: selectionRank(file, selection) }));
+    keyed.sort((a, b) => {
+        if (a.priority !== b.priority) { return a.priority - b.priority; }
+        switch (order) {
+            case 'selection':
+                if (a.selection !== b.selection) { return a.selection - b.selection; }
+                break;
+            case 'path':
+                if (a.file.path !== b.file.path) { return a.file.path < b.file.path ? -1 : 1; }
+                break;
+            case 'size':
+                if (a.file.size !== b.file.size) { return a.file.size - b.file.size; }
+                break;
+            case 'modified':
+                if (a.file.modifiedTime !== b.file.modifiedTime) { return b.file.modifiedTime - a.file.modifiedTime; }
+                break;
+        }
+        return compareTreeOrder(a.file.path, b.file.path);
+    });
+    return keyed.map(entry => entry.file);
+}
@@ -0,0 +1,130 @@
+// src/fileSources.ts
+
+import * as vscode from 'vscode';
+import { combineFiles } from './fileProcessor';
+import { debugLog } from './utils';
+
+const GLOB_PREVIEW_LIMIT = 10000;
+const GLOB_PREVIEW_DELAY = 250;
+
+// Splits "src/**/*.ts, docs/*.{md,mdx}" on commas that are not inside a brace group.
+export function splitGlobPatterns(input: string): string[] {
+    const patterns: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of input) {
+        if (char === '{') { depth++; }
+        if (char === '}') { depth = Math.max(0, depth - 1); }
+        if (char === ',' && depth === 0) {
+            patterns.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    patterns.push(current);
+    return patterns.map(p => p.trim()).filter(p => p.length > 0);
+}
+
+async function findFilesForPatterns(patterns: string[], maxResults?: number, token?: vscode.CancellationToken): Promise<vscode.Uri[]> {
+    const results = await Promise.all(patterns.map(pattern => vscode.workspace.findFiles(pattern, undefined, maxResults, token)));
+    const unique = new Map<string, vscode.Uri>();
+    for (const uri of results.flat()) {
+        unique.set(uri.toString(), uri);
+    }
+    return Array.from(unique.values());
+}
+
+/**
+ * Prompts for one or more comma-separated glob patterns, showing a live count of matching
+ * files as the user types, and resolves to the matches once accepted. The preview stops counting at
+ * `GLOB_PREVIEW_LIMIT`; accepting searches again without a limit so no match is left out.
+ */
+function promptForGlobMatches(): Promise<vscode.Uri[] | undefined> {
+    return new Promise(resolve => {
+        const inputBox = vscode.window.createInputBox();
+        inputBox.title = 'Combine Files Matching Glob';
+        inputBox.placeholder = 'e.g. src/**/*.ts, docs/*.md';
+        inputBox.prompt = 'Enter one or more comma-separated glob patterns';
+
+        let matches: vscode.Uri[] = [];
+        let pendingSearch: vscode.CancellationTokenSource | undefined;
+        let searchTimer: NodeJS.Timeout | undefined;
+        let accepted = false;
+
+        const search = async (value: string, maxResults: number | undefined = GLOB_PREVIEW_LIMIT) => {
+            pendingSearch?.cancel();
+            const patterns = splitGlobPatterns(value);
+            if (patterns.length === 0) {
+                matches = [];
+                inputBox.prompt = 'Enter one or more comma-separated glob patterns';
+                return;
+            }
+            const tokenSource = new vscode.CancellationTokenSource();
+            pendingSearch = tokenSource;
+            inputBox.busy = true;
+            try {
+                const found = await findFilesForPatterns(patterns, maxResults, tokenSource.token);
+                if (tokenSource.token.isCancellationRequested) { return; }
+                matches = found;
+                const limitNote = maxResults !== undefined && found.length >= maxResults ? '+' : '';
+                inputBox.prompt = `${found.length}${limitNote} matching file${found.length === 1 ? '' : 's'}`;
+            } catch (error) {
+                debugLog('Error searching for glob matches:', error);
+            } finally {
+                if (pendingSearch === tokenSource) {
+                    inputBox.busy = false;
+                }
+                tokenSource.dispose();
+            }
+        };
+
+        inputBox.onDidChangeValue(value => {
+            if (searchTimer) { clearTimeout(searchTimer); }
+            searchTimer = setTimeout(() => search(value), GLOB_PREVIEW_DELAY);
+        });
+        inputBox.onDidAccept(async () => {
+            if (searchTimer) { clearTimeout(searchTimer); }
+            await search(inputBox.value, undefined);
+            accepted = true;
+            inputBox.hide();
+            resolve(matches);
+        });
+        inputBox.onDidHide(() => {
+            pendingSearch?.cancel();
+            inputBox.dispose();
+            if (!accepted) { resolve(undefined); }
+        });
+        inputBox.show();
+    });
+}
+
+export async function combineGlobMatches(extensionUri: vscode.Uri) {
+    const uris = await promptForGlobMatches();
+    if (!uris) { return; }
+    if (uris.length === 0) {
+        vscode.window.showWarningMessage('No files match the given patterns.');
+        return;
+    }
+    await combineFiles(uris, extensionUri);
+}
+
+export async function combineOpenEditors(extensionUri: vscode.Uri) {
+    const uris = new Map<string, vscode.Uri>();
+    for (const tab of vscode.window.tabGroups.all.flatMap(group => group.tabs)) {
+        let uri: vscode.Uri | undefined;
+        if (tab.input instanceof vscode.TabInputText) {
+            uri = tab.input.uri;
+        } else if (tab.input instanceof vscode.TabInputTextDiff) {
+            uri = tab.input.modified;
+        }
+        if (uri && uri.scheme === 'file') {
+            uris.set(uri.toString(), uri);
+        }
+    }
+    if (uris.size === 0) {
+        vscode.window.showWarningMessage('No open file editors to combine.');
+        return;
+    }
+    await combineFiles(Array.from(uris.values()), extensionUri);
+}
@@ -0,0 +1,497 @@
+// src/formatters.ts
+
+import { CombinedDocument, ContextSection, FormatConversion, MatchedRule, OutputFormat, OutputOptions, ProcessedFile, ProcessingSummary, PromptTemplate, RenderedDocument } from './types';
+import { formatFileSize } from './utils';
+import { codeFence } from './languages';
+import { formatLineRanges } from './partialRanges';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'xml', 'json'];
+
+// Shown next to the size of a converted file, so it is clear the content is not the file's text.
+export const CONVERSION_LABELS: { [conversion in FormatConversion]: string } = {
+    notebook: 'notebook cells',
+    sample: 'sampled rows',
+    shape: 'JSON shape'
+};
+
+/**
+ * A stable ID for the version of a file that was combined, such as `src/a.ts@3f2a9c1b`, so a
+ * response that quotes it can be mapped back to the exact file and version.
+ */
+export function fileAnchor(file: { path: string; contentHash: string }): string {
+    return `${file.path}@${file.contentHash}`;
+}
+
+function formatModifiedTime(modifiedTime: number): string {
+    return new Date(modifiedTime).toISOString();
+}
+
+// `{{name}}` in a prompt template; `name` may carry an argument, as in `{{input:What should change?}}`.
+export const TEMPLATE_PLACEHOLDER = /\{\{([^{}]+)\}\}/g;
+const FILES_PLACEHOLDER = /\{\{\s*files\s*\}\}/;
+const CONTEXT_PLACEHOLDER = /\{\{\s*context\s*\}\}/;
+
+/**
+ * Renders a combined document in one output format. The header holds everything before the
+ * first file, and the file sections are joined with `fileSeparator`, so callers can render
+ * or drop individual file sections without re-rendering the whole document.
+ */
+export interface OutputFormatter {
+    format: OutputFormat;
+    languageId: string;
+    fileSeparator: string;
+    renderHeader(doc: CombinedDocument): string;
+    renderFile(file: ProcessedFile, options: OutputOptions): string;
+    // The context sections on their own, or '' when there are none. The footer includes them.
+    renderContext(doc: CombinedDocument): string;
+    renderFooter(doc: CombinedDocument): string;
+}
+
+export function formatTokenCount(summary: ProcessingSummary): string {
+    return summary.tokenizer === 'estimate'
+        ? `Estimated tokens: ~${summary.estimatedTokens.toLocaleString()}`
+        : `Tokens (${summary.tokenizer}): ${summary.estimatedTokens.toLocaleString()}`;
+}
+
+export function formatRedactionCounts(counts: { [type: string]: number }): string {
+    return Object.entries(counts).map(([type, count]) => `${type}: ${count}`).join(', ');
+}
+
+function outlineTokensSaved(summary: ProcessingSummary): number {
+    return summary.outlinedFiles.reduce((total, f) => total + f.fullTokens - f.outlineTokens, 0);
+}
+
+export function formatOutlineSavings(summary: ProcessingSummary): string {
+    return `saved ${outlineTokensSaved(summary).toLocaleString()} tokens`;
+}
+
+export function formatContextTokens(summary: ProcessingSummary): string {
+    const tokens = summary.contextSections.reduce((total, section) => total + section.tokens, 0);
+    return `${summary.contextSections.length} context sections, ${tokens.toLocaleString()} tokens`;
+}
+
+export function formatTransformSavings(summary: ProcessingSummary): string {
+    return Object.entries(summary.transformSavings).map(([transform, tokens]) => `${transform}: ${tokens.toLocaleString()}`).join(', ');
+}
+
+// Describes a rule without its source, e.g. "line 3: build/" or "!keep.log" for a settings pattern.
+export function describeRule(rule: MatchedRule): string {
+    return rule.line !== undefined ? `line ${rule.line}: ${rule.pattern}` : rule.pattern;
+}
+
+// The rule that left out `path`, when the output explains ignored files.
+function explainedRule(doc: CombinedDocument, path: string): MatchedRule | undefined {
+    return doc.options.explainIgnoredFiles ? doc.summary.matchedRules[path] : undefined;
+}
+
+function markdownPathList(doc: CombinedDocument, paths: string[]): string {
+    return paths.map(p => {
+        const rule = explainedRule(doc, p);
+        return rule ? `  - ${p} (${describeRule(rule)})` : `  - ${p}`;
+    }).join('\n') + '\n\n';
+}
+
+// Context sections paired with their token counts from the summary.
+function contextWithTokens(doc: CombinedDocument): { section: ContextSection; tokens: number }[] {
+    return doc.contextSections.map((section, index) => ({ section, tokens: doc.summary.contextSections[index]?.tokens ?? 0 }));
+}
+
+const markdownFormatter: OutputFormatter = {
+    format: 'markdown',
+    languageId: 'markdown',
+    fileSeparator: '',
+
+    renderHeader(doc) {
+        const { summary, options } = doc;
+        let output = '';
+
+        if (options.showProcessingSummary) {
+            output += '# Processing Summary\n```\n';
+            output += `Total files found: ${summary.totalFiles}\n`;
+            output += `Files processed: ${summary.processedFiles}\n`;
+            output += `Total size: ${formatFileSize(summary.totalSize)}\n`;
+            output += `${formatTokenCount(summary)}\n`;
+            if (summary.contextSections.length > 0) {
+                output += `Including ${formatContextTokens(summary)}\n`;
+            }
+            if (doc.tokenBudget) {
+                output += `Token budget (${doc.tokenBudget.model}): ${doc.tokenBudget.limit.toLocaleString()}${doc.tokenBudget.exceeded ? ' - EXCEEDED' : ''}\n`;
+            }
+            output += '```\n\n';
+            if (summary.redactions.length > 0) {
+                output += 'Secrets redacted:\n';
+                output += summary.redactions.map(r => `  - ${r.path} (${formatRedactionCounts(r.counts)})`).join('\n') + '\n\n';
+            }
+            if (summary.outlinedFiles.length > 0) {
+                output += `Files reduced to an outline (${formatOutlineSavings(summary)}):\n`;
+                output += summary.outlinedFiles.map(f => `  - ${f.path} (${f.fullTokens.toLocaleString()} -> ${f.outlineTokens.toLocaleString()} tokens)`).join('\n') + '\n\n';
+            }
+            if (summary.convertedFiles.length > 0) {
+                output += 'Files converted by format:\n';
+                output += summary.convertedFiles.map(f => `  - ${f.path} (${CONVERSION_LABELS[f.conversion]}: ${f.description})`).join('\n') + '\n\n';
+            }
+            if (Object.keys(summary.transformSavings).length > 0) {
+                output += `Tokens saved by content transforms: ${formatTransformSavings(summary)}\n\n`;
+            }
+        }
+
+        if (options.llmInstructions) {
+            output += '# Instructions for LLM\n';
+            output += `${options.llmInstructions}\n\n`;
+        }
+
+        if (options.showIgnoredFiles) {
+            for (const group of doc.ignoredGroups) {
+                output += `Files ignored by rules in ./${group.source}:\n`;
+                output += markdownPathList(doc, group.paths);
+            }
+            if (summary.excludedFiles.length > 0) {
+                output += 'Files excluded by global settings:\n';
+                output += markdownPathList(doc, summary.excludedFiles);
+            }
+            if (summary.binaryFiles.length > 0) {
+                output += 'Binary files skipped:\n';
+                output += summary.binaryFiles.map(f => `  - ${f}`).join('\n') + '\n\n';
+            }
+            if (summary.generatedFiles.length > 0) {
+                output += 'Generated files skipped:\n';
+                output += summary.generatedFiles.map(f => `  - ${f.path} (${f.reason})`).join('\n') + '\n\n';
+            }
+            if (summary.truncatedFiles.length > 0) {
+                output += `Files truncated to fit the ${options.maxTokens.toLocaleString()} token budget:\n`;
+                output += summary.truncatedFiles.map(f => `  - ${f.path} (${f.omittedLines} lines omitted)`).join('\n') + '\n\n';
+            }
+            if (summary.droppedFiles.length > 0) {
+                output += `Files dropped to fit the ${options.maxTokens.toLocaleString()} token budget:\n`;
+                output += summary.droppedFiles.map(f => `  - ${f}`).join('\n') + '\n\n';
+            }
+        }
+
+        if (options.showTimings) {
+            output += 'Timings:\n```\n';
+            for (const [stage, time] of Object.entries(summary.timings)) {
+                output += `  - ${stage}: ${time}ms\n`;
+            }
+            output += '```\n\n';
+        }
+
+        if (options.showFileStructure && doc.treeView.length > 0) {
+            const fence = codeFence(doc.treeView);
+            output += `# File Structure\n${fence}\n${doc.treeView}${fence}\n\n`;
+        }
+
+        return output + '# Combined Files\n\n';
+    },
+
+    renderFile(file, options) {
+        const fence = codeFence(file.content);
+        const details = [formatFileSize(file.size), `${file.tokens.toLocaleString()} tokens`];
+        if (file.outline) { details.push('outline'); }
+        if (file.conversion) { details.push(CONVERSION_LABELS[file.conversion]); }
+        if (file.lineRanges) { details.push(`lines ${formatLineRanges(file.lineRanges)}`); }
+        if (file.truncated) { details.push('truncated'); }
+        if (file.redacted) { details.push('redacted'); }
+        const anchor = options.fileAnchors
+            ? `Anchor: \`${fileAnchor(file)}\` · ${file.size} bytes · modified ${formatModifiedTime(file.modifiedTime)}\n\n`
+            : '';
+        let output = `## Path: ${file.path} (${details.join(', ')})\n\n${anchor}${fence}${file.language}\n${file.content}\n${fence}\n\n`;
+        if (file.diff !== undefined) {
+            const diffFence = codeFence(file.diff);
+            output += `### Diff: ${file.path}\n\n${diffFence}diff\n${file.diff}\n${diffFence}\n\n`;
+        }
+        return output;
+    },
+
+    renderContext(doc) {
+        if (doc.contextSections.length === 0) { return ''; }
+        return '# Context\n\n' + contextWithTokens(doc).map(({ section, tokens }) => {
+            const fence = codeFence(section.content);
+            return `## ${section.title} (${tokens.toLocaleString()} tokens)\n\n${fence}${section.language}\n${section.content}\n${fence}\n\n`;
+        }).join('');
+    },
+
+    renderFooter(doc) {
+        return this.renderContext(doc);
+    }
+};
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Wraps file text in a CDATA section, so code stays readable and a `</file>` inside it cannot end
+ * the element. A `]]>` in the text is split across two sections.
+ */
+export function xmlCdata(text: string): string {
+    return `<![CDATA[\n${text.replace(/\]\]>/g, ']]]]><![CDATA[>')}\n]]>`;
+}
+
+function xmlPathList(doc: CombinedDocument, paths: string[]): string {
+    return paths.map(p => {
+        const rule = explainedRule(doc, p);
+        const ruleAttributes = rule ? ` rule="${escapeXml(rule.pattern)}"${rule.line !== undefined ? ` line="${rule.line}"` : ''}` : '';
+        return `  <file path="${escapeXml(p)}"${ruleAttributes} />`;
+    }).join('\n') + '\n';
+}
+
+function xmlList(tag: string, itemTag: string, items: string[]): string {
+    if (items.length === 0) { return ''; }
+    return `<${tag}>\n${items.map(item => `  <${itemTag} path="${escapeXml(item)}" />`).join('\n')}\n</${tag}>\n`;
+}
+
+// File contents, diffs and the file structure are wrapped in CDATA rather than escaped, so the LLM sees them exactly as written.
+const xmlFormatter: OutputFormatter = {
+    format: 'xml',
+    languageId: 'xml',
+    fileSeparator: '\n',
+
+    renderHeader(doc) {
+        const { summary, options } = doc;
+        let output = '<combined_files>\n';
+
+        if (options.showProcessingSummary) {
+            output += '<processing_summary>\n';
+            output += `  <total_files>${summary.totalFiles}</total_files>\n`;
+            output += `  <processed_files>${summary.processedFiles}</processed_files>\n`;
+            output += `  <total_size>${formatFileSize(summary.totalSize)}</total_size>\n`;
+            output += `  <tokens tokenizer="${escapeXml(summary.tokenizer)}">${summary.estimatedTokens}</tokens>\n`;
+            if (summary.contextSections.length > 0) {
+                output += `  <context_tokens sections="${summary.contextSections.length}">${summary.contextSections.reduce((total, c) => total + c.tokens, 0)}</context_tokens>\n`;
+            }
+            if (doc.tokenBudget) {
+                output += `  <token_budget model="${escapeXml(doc.tokenBudget.model)}" exceeded="${doc.tokenBudget.exceeded}">${doc.tokenBudget.limit}</token_budget>\n`;
+            }
+            output += '</processing_summary>\n';
+            if (summary.redactions.length > 0) {
+                output += '<redactions>\n';
+                for (const redaction of summary.redactions) {
+                    output += `  <file path="${escapeXml(redaction.path)}">\n`;
+                    for (const [type, count] of Object.entries(redaction.counts)) {
+                        output += `    <redaction type="${escapeXml(type)}" count="${count}" />\n`;
+                    }
+                    output += '  </file>\n';
+                }
+                output += '</redactions>\n';
+            }
+            if (summary.outlinedFiles.length > 0) {
+                output += `<outlined_files saved_tokens="${outlineTokensSaved(summary)}">\n`;
+                output += summary.outlinedFiles.map(f => `  <file path="${escapeXml(f.path)}" full_tokens="${f.fullTokens}" outline_tokens="${f.outlineTokens}" />`).join('\n') + '\n';
+                output += '</outlined_files>\n';
+            }
+            if (summary.convertedFiles.length > 0) {
+                output += '<converted_files>\n';
+                output += summary.convertedFiles.map(f => `  <file path="${escapeXml(f.path)}" conversion="${f.conversion}" description="${escapeXml(f.description)}" />`).join('\n') + '\n';
+                output += '</converted_files>\n';
+            }
+            if (Object.keys(summary.transformSavings).length > 0) {
+                output += '<transform_savings>\n';
+                for (const [transform, tokens] of Object.entries(summary.transformSavings)) {
+                    output += `  <transform name="${escapeXml(transform)}" saved_tokens="${tokens}" />\n`;
+                }
+                output += '</transform_savings>\n';
+            }
+        }
+
+        if (options.llmInstructions) {
+            output += `<instructions>\n${escapeXml(options.llmInstructions)}\n</instructions>\n`;
+        }
+
+        if (options.showIgnoredFiles) {
+            for (const group of doc.ignoredGroups) {
+                output += `<ignored_files source="${escapeXml(group.source)}">\n`;
+                output += xmlPathList(doc, group.paths);
+                output += '</ignored_files>\n';
+            }
+            if (summary.excludedFiles.length > 0) {
+                output += `<excluded_files>\n${xmlPathList(doc, summary.excludedFiles)}</excluded_files>\n`;
+            }
+            output += xmlList('binary_files', 'file', summary.binaryFiles);
+            if (summary.generatedFiles.length > 0) {
+                output += '<generated_files>\n';
+                output += summary.generatedFiles.map(f => `  <file path="${escapeXml(f.path)}" reason="${escapeXml(f.reason)}" />`).join('\n') + '\n';
+                output += '</generated_files>\n';
+            }
+            if (summary.truncatedFiles.length > 0) {
+                output += `<truncated_files max_tokens="${options.maxTokens}">\n`;
+                output += summary.truncatedFiles.map(f => `  <file path="${escapeXml(f.path)}" omitted_lines="${f.omittedLines}" />`).join('\n') + '\n';
+                output += '</truncated_files>\n';
+            }
+            if (summary.droppedFiles.length > 0) {
+                output += `<dropped_files max_tokens="${options.maxTokens}">\n`;
+                output += summary.droppedFiles.map(f => `  <file path="${escapeXml(f)}" />`).join('\n') + '\n';
+                output += '</dropped_files>\n';
+            }
+        }
+
+        if (options.showTimings) {
+            output += '<timings>\n';
+            for (const [stage, time] of Object.entries(summary.timings)) {
+                output += `  <timing stage="${escapeXml(stage)}" ms="${time}" />\n`;
+            }
+            output += '</timings>\n';
+        }
+
+        if (options.showFileStructure && doc.treeView.length > 0) {
+            output += `<file_structure>${xmlCdata(doc.treeView.trimEnd())}</file_structure>\n`;
+        }
+
+        return output + '<files>\n';
+    },
+
+    renderFile(file, options) {
+        const anchor = options.fileAnchors
+            ? ` id="${escapeXml(fileAnchor(file))}" modified="${formatModifiedTime(file.modifiedTime)}" hash="${file.contentHash}"`
+            : '';
+        const flags = `${file.outline ? ' outline="true"' : ''}${file.conversion ? ` converted="${file.conversion}"` : ''}${file.lineRanges ? ` lines="${formatLineRanges(file.lineRanges)}"` : ''}`
+            + `${file.truncated ? ' truncated="true"' : ''}${file.redacted ? ' redacted="true"' : ''}`;
+        let output = `<file path="${escapeXml(file.path)}"${anchor} language="${escapeXml(file.language)}" size="${file.size}" tokens="${file.tokens}"${flags}>${xmlCdata(file.content)}</file>`;
+        if (file.diff !== undefined) {
+            output += `\n<diff path="${escapeXml(file.path)}">${xmlCdata(file.diff)}</diff>`;
+        }
+        return output;
+    },
+
+    renderContext(doc) {
+        if (doc.contextSections.length === 0) { return ''; }
+        const sections = contextWithTokens(doc).map(({ section, tokens }) =>
+            `  <section kind="${section.kind}" title="${escapeXml(section.title)}" tokens="${tokens}">\n${escapeXml(section.content)}\n  </section>`);
+        return `<context>\n${sections.join('\n')}\n</context>\n`;
+    },
+
+    renderFooter(doc) {
+        return '\n</files>\n' + this.renderContext(doc) + '</combined_files>\n';
+    }
+};
+
+function indentLines(text: string, indent: string): string {
+    return text.split('\n').map(line => indent + line).join('\n');
+}
+
+// The header is the metadata object left open at the "files" array, so each file renders as its own array element.
+const jsonFormatter: OutputFormatter = {
+    format: 'json',
+    languageId: 'json',
+    fileSeparator: ',\n',
+
+    renderHeader(doc) {
+        const { summary, options } = doc;
+        const metadata: { [key: string]: unknown } = { generator: 'file-combine' };
+
+        if (options.showProcessingSummary) {
+            metadata.summary = {
+                totalFiles: summary.totalFiles,
+                processedFiles: summary.processedFiles,
+                totalSize: summary.totalSize,
+                tokens: summary.estimatedTokens,
+                tokenizer: summary.tokenizer,
+                ...(doc.tokenBudget ? { tokenBudget: doc.tokenBudget } : {}),
+                redactions: summary.redactions,
+                outlinedFiles: summary.outlinedFiles,
+                convertedFiles: summary.convertedFiles,
+                transformSavings: summary.transformSavings,
+                contextSections: summary.contextSections
+            };
+        }
+        if (options.llmInstructions) {
+            metadata.instructions = options.llmInstructions;
+        }
+        if (options.showIgnoredFiles) {
+            metadata.ignoredFiles = doc.ignoredGroups;
+            metadata.excludedFiles = summary.excludedFiles;
+            if (options.explainIgnoredFiles) {
+                metadata.matchedRules = summary.matchedRules;
+            }
+            metadata.binaryFiles = summary.binaryFiles;
+            metadata.generatedFiles = summary.generatedFiles;
+            metadata.truncatedFiles = summary.truncatedFiles;
+            metadata.droppedFiles = summary.droppedFiles;
+        }
+        if (options.showTimings) {
+            metadata.timings = summary.timings;
+        }
+        if (options.showFileStructure && doc.treeView.length > 0) {
+            metadata.fileStructure = doc.treeView;
+        }
+
+        const metadataJson = JSON.stringify(metadata, null, 2);
+        return metadataJson.slice(0, -2) + ',\n  "files": [\n';
+    },
+
+    renderFile(file, options) {
+        const anchor = options.fileAnchors
+            ? { id: fileAnchor(file), modified: formatModifiedTime(file.modifiedTime), hash: file.contentHash }
+            : {};
+        const entry = { path: file.path, ...anchor, language: file.language, size: file.size, tokens: file.tokens, outline: file.outline || undefined, converted: file.conversion,
+            lines: file.lineRanges ? formatLineRanges(file.lineRanges) : undefined, truncated: file.truncated || undefined, redacted: file.redacted || undefined,
+            content: file.content, diff: file.diff };
+        return indentLines(JSON.stringify(entry, null, 2), '    ');
+    },
+
+    renderContext(doc) {
+        if (doc.contextSections.length === 0) { return ''; }
+        const sections = contextWithTokens(doc).map(({ section, tokens }) => ({ kind: section.kind, title: section.title, tokens, content: section.content }));
+        return JSON.stringify(sections, null, 2);
+    },
+
+    renderFooter(doc) {
+        const context = this.renderContext(doc);
+        return context ? `\n  ],\n  "context": ${indentLines(context, '  ').trimStart()}\n}\n` : '\n  ]\n}\n';
+    }
+};
+
+const formatters: { [format in OutputFormat]: OutputFormatter } = {
+    markdown: markdownFormatter,
+    xml: xmlFormatter,
+    json: jsonFormatter
+};
+
+export function getFormatter(format: OutputFormat): OutputFormatter {
+    return formatters[format] ?? markdownFormatter;
+}
+
+export function renderSections(formatter: OutputFormatter, doc: CombinedDocument): RenderedDocument {
+    return {
+        header: formatter.renderHeader(doc),
+        files: doc.files.map(file => ({
+            path: file.path, fsPath: file.fsPath, size: file.size, tokens: file.tokens, contentHash: file.contentHash,
+            numbered: !!file.numbered || !!file.lineRanges, text: formatter.renderFile(file, doc.options)
+        })),
+        separator: formatter.fileSeparator,
+        footer: formatter.renderFooter(doc)
+    };
+}
+
+/**
+ * Renders a document laid out by a prompt template. The text before `{{files}}` becomes the header
+ * and the text after it the footer, with the file sections rendered by `formatter` in between; a
+ * template without `{{files}}` gets the files appended. Unknown placeholders are left as written.
+ */
+export function renderPromptTemplate(formatter: OutputFormatter, doc: CombinedDocument, template: PromptTemplate): RenderedDocument {
+    const values: { [placeholder: string]: string } = {
+        fileCount: String(doc.summary.processedFiles),
+        tokens: doc.summary.estimatedTokens.toLocaleString(),
+        tree: doc.treeView.trimEnd(),
+        instructions: doc.options.llmInstructions,
+        context: formatter.renderContext(doc).trimEnd(),
+        ...template.values
+    };
+    const expand = (text: string) => text.replace(TEMPLATE_PLACEHOLDER, (placeholder, name: string) => values[name.trim()] ?? placeholder);
+
+    const match = FILES_PLACEHOLDER.exec(template.text);
+    const before = match ? template.text.slice(0, match.index) : `${template.text.trimEnd()}\n\n`;
+    let after = match ? template.text.slice(match.index + match[0].length) : '';
+    // Context the user asked for is never dropped; without a `{{context}}` placeholder it follows the template.
+    if (doc.contextSections.length > 0 && !CONTEXT_PLACEHOLDER.test(template.text)) {
+        after = `${after.trimEnd()}\n\n{{context}}\n`;
+    }
+    return { ...renderSections(formatter, doc), header: expand(before), footer: expand(after) };
+}
+
+export function joinSections(rendered: RenderedDocument): string {
+    return rendered.header + rendered.files.map(file => file.text).join(rendered.separator) + rendered.footer;
+}
+
+export function renderDocument(formatter: OutputFormatter, doc: CombinedDocument): string {
+    return joinSections(renderSections(formatter, doc));
+}
@@ -0,0 +1,60 @@
+// src/gitDiff.ts
+//
+// Reads `git diff` output. Kept apart from gitSource.ts, which needs VS Code, so it can be tested on its own.
+
+const DIFF_GIT_PREFIX = 'diff --git ';
+
+/**
+ * The path in a `---`, `+++` or `rename to` line without its `a/` or `b/` prefix. Git quotes paths
+ * holding quotes, backslashes or control characters, and ends `---` and `+++` paths holding spaces with a tab.
+ */
+function headerPath(value: string, prefix: string): string | undefined {
+    let filePath = value.replace(/\t$/, '');
+    if (filePath.startsWith('"')) {
+        try {
+            filePath = JSON.parse(filePath);
+        } catch {
+            return undefined;
+        }
+    }
+    if (filePath === '/dev/null') { return undefined; }
+    return filePath.startsWith(prefix) ? filePath.slice(prefix.length) : filePath;
+}
+
+// `diff --git a/path b/path` only gives the path unambiguously when both sides are the same, as for a mode change.
+function unchangedGitPath(line: string): string | undefined {
+    const paths = line.slice(DIFF_GIT_PREFIX.length);
+    const length = (paths.length - ' a/b/'.length) / 2;
+    if (!Number.isInteger(length) || length <= 0) { return undefined; }
+    const filePath = paths.slice('a/'.length, 'a/'.length + length);
+    return paths === `a/${filePath} b/${filePath}` ? filePath : undefined;
+}
+
+// The post-image path of one file's diff, or the pre-image path when the file was deleted.
+function diffPath(chunk: string): string | undefined {
+    const lines = chunk.split('\n');
+    const hunkStart = lines.findIndex(line => line.startsWith('@@'));
+    const header = hunkStart === -1 ? lines : lines.slice(0, hunkStart);
+    const valueOf = (marker: string) => header.find(line => line.startsWith(marker))?.slice(marker.length);
+
+    const newPath = valueOf('+++ ');
+    const renamedTo = valueOf('rename to ') ?? valueOf('copy to ');
+    const oldPath = valueOf('--- ');
+    return (newPath !== undefined ? headerPath(newPath, 'b/') : undefined)
+        ?? (renamedTo !== undefined ? headerPath(renamedTo, '') : undefined)
+        ?? (oldPath !== undefined ? headerPath(oldPath, 'a/') : undefined)
+        ?? unchangedGitPath(lines[0]);
+}
+
+// Splits a multi-file unified diff into one chunk per file, keyed by the post-image path.
+export function splitDiffByFile(diff: string): Map<string, string> {
+    const diffs = new Map<string, string>();
+    const chunks = diff.split(/^(?=diff --git )/m).filter(chunk => chunk.startsWith(DIFF_GIT_PREFIX));
+    for (const chunk of chunks) {
+        const filePath = diffPath(chunk);
+        if (filePath !== undefined) {
+            diffs.set(filePath, chunk.trimEnd());
+        }
+    }
+    return diffs;
+}
@@ -0,0 +1,191 @@
+// src/gitSource.ts
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { combineFiles } from './fileProcessor';
+import { splitDiffByFile } from './gitDiff';
+import { GitDiffMode } from './types';
+import { debugLog } from './utils';
+
+export type GitChangeScope = 'all' | 'staged' | 'unstaged' | 'untracked';
+
+interface GitChanges {
+    // Repository-relative POSIX paths of changed files that still exist.
+    paths: string[];
+    // Unified diff for each changed path, keyed like `paths`. Untracked files have no diff.
+    diffs: Map<string, string>;
+}
+
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+function runGit(args: string[], cwd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', ['-c', 'core.quotePath=false', ...args], { cwd, maxBuffer: GIT_MAX_BUFFER }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr.trim() || error.message));
+                return;
+            }
+            resolve(stdout);
+        });
+    });
+}
+
+/**
+ * Parses `git status --porcelain=v1 -z`. Entries are `XY path`, and renames and copies are
+ * followed by an extra NUL-terminated entry holding the original path, which is skipped.
+ */
+function parseStatus(output: string, scope: GitChangeScope): string[] {
+    const entries = output.split('\0');
+    const paths: string[] = [];
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (entry.length < 4) { continue; }
+        const [indexStatus, workTreeStatus] = [entry[0], entry[1]];
+        const filePath = entry.slice(3);
+        if (indexStatus === 'R' || indexStatus === 'C') { i++; }
+
+        const untracked = indexStatus === '?';
+        const staged = !untracked && indexStatus !== ' ';
+        const unstaged = !untracked && workTreeStatus !== ' ';
+        const deleted = scope === 'staged' ? indexStatus === 'D' : (workTreeStatus === 'D' || (indexStatus === 'D' && workTreeStatus === ' '));
+
+        const inScope = scope === 'all' || (scope === 'staged' && staged) || (scope === 'unstaged' && unstaged) || (scope === 'untracked' && untracked);
+        if (inScope && !deleted) {
+            paths.push(filePath);
+        }
+    }
+    return paths;
+}
+
+// Whether the repository has a commit checked out; a freshly initialised one has none, so `HEAD` does not resolve.
+async function hasHeadCommit(repoRoot: string): Promise<boolean> {
+    try {
+        await runGit(['rev-parse', '--verify', '--quiet', 'HEAD'], repoRoot);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function getWorkingTreeChanges(repoRoot: string, scope: GitChangeScope): Promise<GitChanges> {
+    const status = await runGit(['status', '--porcelain=v1', '-z', '--untracked-files=all'], repoRoot);
+    const paths = parseStatus(status, scope);
+
+    // Without a commit every tracked file is staged, so the staged diff stands in for the diff against `HEAD`.
+    const diffArgs: { [key in GitChangeScope]: string[] | null } = {
+        all: scope === 'all' && !(await hasHeadCommit(repoRoot)) ? ['diff', '--cached'] : ['diff', 'HEAD'],
+        staged: ['diff', '--cached'],
+        unstaged: ['diff'],
+        untracked: null
+    };
+    const args = diffArgs[scope];
+    const diffs = args && paths.length > 0 ? splitDiffByFile(await runGit([...args, '--no-color', '--'], repoRoot)) : new Map<string, string>();
+    return { paths, diffs };
+}
+
+// A ref starting with `-` would be read by git as an option.
+function validateRef(ref: string): string | undefined {
+    return ref.trim().startsWith('-') ? 'A branch, tag or commit cannot start with "-".' : undefined;
+}
+
+async function getRefChanges(repoRoot: string, ref: string): Promise<GitChanges> {
+    const invalid = validateRef(ref);
+    if (invalid) { throw new Error(invalid); }
+    // --merge-base compares against the point where the current branch forked from `ref`, like a pull request.
+    const nameOutput = await runGit(['diff', '--merge-base', ref, '--name-only', '-z', '--diff-filter=d'], repoRoot);
+    const paths = nameOutput.split('\0').filter(p => p.length > 0);
+    const diffs = paths.length > 0
+        ? splitDiffByFile(await runGit(['diff', '--merge-base', ref, '--no-color', '--'], repoRoot))
+        : new Map<string, string>();
+    return { paths, diffs };
+}
+
+// The checked-out branch of the repository containing `cwd`; `HEAD` when detached, undefined outside a repository.
+export async function getCurrentBranch(cwd: string): Promise<string | undefined> {
+    try {
+        return (await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], cwd)).trim();
+    } catch (error) {
+        debugLog(`Could not read the git branch for ${cwd}:`, error);
+        return undefined;
+    }
+}
+
+async function pickRepositoryRoot(): Promise<string | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) {
+        vscode.window.showWarningMessage('Open a workspace folder to combine git changes.');
+        return undefined;
+    }
+    const folder = folders.length === 1 ? folders[0] : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the repository to combine changes from' });
+    if (!folder) { return undefined; }
+    try {
+        return (await runGit(['rev-parse', '--show-toplevel'], folder.uri.fsPath)).trim();
+    } catch (error) {
+        debugLog(`Could not find a git repository for ${folder.uri.fsPath}:`, error);
+        vscode.window.showErrorMessage(`${folder.name} is not inside a git repository.`);
+        return undefined;
+    }
+}
+
+async function combineGitChangeSet(repoRoot: string, changes: GitChanges, extensionUri: vscode.Uri) {
+    if (changes.paths.length === 0) {
+        vscode.window.showInformationMessage('No changed files found.');
+        return;
+    }
+    const uris = changes.paths.map(p => vscode.Uri.file(path.join(repoRoot, p)));
+    const diffs = new Map<string, string>();
+    for (const [filePath, diff] of changes.diffs) {
+        diffs.set(vscode.Uri.file(path.join(repoRoot, filePath)).fsPath, diff);
+    }
+    const diffMode = vscode.workspace.getConfiguration('fileCombine').get<GitDiffMode>('gitDiffMode', 'both');
+    await combineFiles(uris, extensionUri, { diffs, diffMode });
+}
+
+export async function combineGitChanges(extensionUri: vscode.Uri) {
+    const repoRoot = await pickRepositoryRoot();
+    if (!repoRoot) { return; }
+
+    const scopes: { label: string; scope: GitChangeScope }[] = [
+        { label: 'All changes', scope: 'all' },
+        { label: 'Staged changes', scope: 'staged' },
+        { label: 'Unstaged changes', scope: 'unstaged' },
+        { label: 'Untracked files', scope: 'untracked' }
+    ];
+    const picked = await vscode.window.showQuickPick(scopes, { placeHolder: 'Which changes should be combined?' });
+    if (!picked) { return; }
+
+    try {
+        await combineGitChangeSet(repoRoot, await getWorkingTreeChanges(repoRoot, picked.scope), extensionUri);
+    } catch (error) {
+        debugLog('Error reading git changes:', error);
+        vscode.window.showErrorMessage(`Could not read git changes: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+export async function combineDiffAgainstRef(extensionUri: vscode.Uri) {
+    const repoRoot = await pickRepositoryRoot();
+    if (!repoRoot) { return; }
+
+    const enterRefLabel = '$(edit) Enter a branch, tag or commit...';
+    let refs: string[] = [];
+    try {
+        refs = (await runGit(['for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes'], repoRoot))
+            .split('\n').filter(ref => ref.length > 0 && !ref.endsWith('/HEAD'));
+    } catch (error) {
+        debugLog('Error listing git refs:', error);
+    }
+
+    let ref = await vscode.window.showQuickPick([enterRefLabel, ...refs], { placeHolder: 'Combine files changed since...' });
+    if (ref === enterRefLabel) {
+        ref = await vscode.window.showInputBox({ prompt: 'Branch, tag or commit to diff against', placeHolder: 'e.g. main or a1b2c3d', validateInput: validateRef });
+    }
+    if (!ref) { return; }
+
+    try {
+        await combineGitChangeSet(repoRoot, await getRefChanges(repoRoot, ref.trim()), extensionUri);
+    } catch (error) {
+        debugLog(`Error diffing against ${ref}:`, error);
+        vscode.window.showErrorMessage(`Could not diff against ${ref}: ${error instanceof Error ? error.message : error}`);
+    }
+}
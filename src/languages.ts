@@ -0,0 +1,72 @@
+// src/languages.ts
+
+import * as path from 'path';
+
+// Files recognised by their whole name rather than by extension.
+const FILE_NAME_LANGUAGES: { [fileName: string]: string } = {
+    'dockerfile': 'dockerfile',
+    'containerfile': 'dockerfile',
+    'makefile': 'makefile',
+    'gnumakefile': 'makefile',
+    'cmakelists.txt': 'cmake',
+    'gemfile': 'ruby',
+    'rakefile': 'ruby',
+    'podfile': 'ruby',
+    'vagrantfile': 'ruby',
+    'jenkinsfile': 'groovy',
+    'procfile': 'yaml',
+    '.gitignore': 'gitignore',
+    '.dockerignore': 'gitignore',
+    '.filecombine': 'gitignore',
+    '.editorconfig': 'ini',
+    '.bashrc': 'bash',
+    '.zshrc': 'bash',
+    '.profile': 'bash'
+};
+
+const EXTENSION_LANGUAGES: { [extension: string]: string } = {
+    ts: 'typescript', mts: 'typescript', cts: 'typescript', tsx: 'tsx',
+    js: 'javascript', mjs: 'javascript', cjs: 'javascript', jsx: 'jsx',
+    py: 'python', pyi: 'python', rb: 'ruby', php: 'php', pl: 'perl', lua: 'lua', r: 'r',
+    java: 'java', kt: 'kotlin', kts: 'kotlin', scala: 'scala', groovy: 'groovy', gradle: 'groovy',
+    c: 'c', h: 'c', cc: 'cpp', cpp: 'cpp', cxx: 'cpp', hpp: 'cpp', hh: 'cpp', m: 'objectivec', mm: 'objectivec',
+    cs: 'csharp', fs: 'fsharp', vb: 'vbnet', go: 'go', rs: 'rust', swift: 'swift', dart: 'dart', zig: 'zig',
+    ex: 'elixir', exs: 'elixir', erl: 'erlang', hs: 'haskell', clj: 'clojure', ml: 'ocaml', jl: 'julia',
+    sh: 'bash', bash: 'bash', zsh: 'bash', fish: 'fish', ps1: 'powershell', psm1: 'powershell', bat: 'batch', cmd: 'batch',
+    html: 'html', htm: 'html', xml: 'xml', xhtml: 'xml', svg: 'xml', vue: 'vue', svelte: 'svelte', astro: 'astro',
+    css: 'css', scss: 'scss', sass: 'sass', less: 'less',
+    json: 'json', jsonc: 'jsonc', json5: 'json5', yaml: 'yaml', yml: 'yaml', toml: 'toml', ini: 'ini', cfg: 'ini', conf: 'ini',
+    env: 'dotenv', properties: 'properties', csv: 'csv', tsv: 'tsv',
+    md: 'markdown', mdx: 'mdx', markdown: 'markdown', rst: 'rst', tex: 'latex', txt: 'text',
+    sql: 'sql', graphql: 'graphql', gql: 'graphql', proto: 'protobuf', prisma: 'prisma',
+    tf: 'hcl', tfvars: 'hcl', hcl: 'hcl', nix: 'nix', dockerfile: 'dockerfile', cmake: 'cmake', mk: 'makefile',
+    ipynb: 'json', diff: 'diff', patch: 'diff'
+};
+
+/**
+ * Maps a file path to the language identifier used on its code fence, e.g. `.ts` to `typescript`
+ * or `Dockerfile` to `dockerfile`. Unknown extensions fall back to the bare extension.
+ */
+export function getLanguageId(filePath: string): string {
+    const fileName = path.basename(filePath).toLowerCase();
+    if (FILE_NAME_LANGUAGES[fileName]) {
+        return FILE_NAME_LANGUAGES[fileName];
+    }
+    if (fileName.startsWith('dockerfile.') || fileName.endsWith('.dockerfile')) {
+        return 'dockerfile';
+    }
+    const extension = path.extname(fileName).replace('.', '');
+    return EXTENSION_LANGUAGES[extension] ?? extension;
+}
+
+/**
+ * Returns a backtick fence longer than any run of backticks in `content`, so content that itself
+ * contains fenced code blocks cannot close the surrounding block early.
+ */
+export function codeFence(content: string): string {
+    let longestRun = 0;
+    for (const match of content.matchAll(/`+/g)) {
+        longestRun = Math.max(longestRun, match[0].length);
+    }
+    return '`'.repeat(Math.max(3, longestRun + 1));
+}
@@ -0,0 +1,86 @@
+// src/nodeHost.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseJsonc, ParseError } from 'jsonc-parser';
+import { CombineHost, ConfigSource } from './types';
+
+// Reads the defaults declared under `contributes.configuration` in the extension manifest,
+// so the CLI behaves like a fresh VS Code install when a setting is not overridden.
+function readManifestDefaults(): { [key: string]: unknown } {
+    const defaults: { [key: string]: unknown } = {};
+    try {
+        const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
+        const properties = manifest.contributes?.configuration?.properties ?? {};
+        for (const [key, schema] of Object.entries<{ default?: unknown }>(properties)) {
+            if (key.startsWith('fileCombine.') && schema.default !== undefined) {
+                defaults[key.slice('fileCombine.'.length)] = schema.default;
+            }
+        }
+    } catch {
+        // Without the manifest the hard-coded defaults passed to `get` are used.
+    }
+    return defaults;
+}
+
+/**
+ * Loads settings from a VS Code style settings file (JSON with comments). Both
+ * `"fileCombine.excludePatterns"` and bare `"excludePatterns"` keys are accepted.
+ */
+export function loadSettingsFile(filePath: string): { [key: string]: unknown } {
+    const errors: ParseError[] = [];
+    const parsed = parseJsonc(fs.readFileSync(filePath, 'utf8'), errors, { allowTrailingComma: true });
+    if (errors.length > 0 || typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error(`${filePath} is not a valid settings file`);
+    }
+    const settings: { [key: string]: unknown } = {};
+    for (const [key, value] of Object.entries(parsed)) {
+        if (key.startsWith('fileCombine.')) {
+            settings[key.slice('fileCombine.'.length)] = value;
+        } else if (!key.includes('.')) {
+            settings[key] = value;
+        }
+    }
+    return settings;
+}
+
+export function createConfigSource(...layers: { [key: string]: unknown }[]): ConfigSource {
+    const settings = Object.assign({}, readManifestDefaults(), ...layers);
+    return {
+        get: <T>(key: string, defaultValue: T) => (key in settings ? settings[key] as T : defaultValue)
+    };
+}
+
+// The combine host used by the CLI: the local file system, with each of `roots` as a workspace folder.
+export function createNodeHost(roots: string[], config: ConfigSource): CombineHost {
+    const rootFor = (fsPath: string) => roots
+        .filter(root => fsPath === root || fsPath.startsWith(root + path.sep))
+        .sort((a, b) => b.length - a.length)[0];
+    return {
+        fs: {
+            async stat(fsPath) {
+                try {
+                    const stats = await fs.promises.stat(fsPath);
+                    const type = stats.isDirectory() ? 'directory' : stats.isFile() ? 'file' : 'other';
+                    return { type, size: stats.size, mtime: stats.mtimeMs };
+                } catch (error) {
+                    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                        return undefined;
+                    }
+                    throw error;
+                }
+            },
+            readFile: fsPath => fs.promises.readFile(fsPath),
+            readDirectory: fsPath => fs.promises.readdir(fsPath)
+        },
+        config,
+        workspaceRoots: roots,
+        workspaceRootFor: rootFor,
+        workspaceFolderName: root => path.basename(root),
+        // Mirrors `vscode.workspace.asRelativePath(fsPath, false)`: POSIX separators inside a root, the path unchanged outside them.
+        relativePath: fsPath => {
+            const root = rootFor(fsPath);
+            return root && fsPath !== root ? path.relative(root, fsPath).split(path.sep).join(path.posix.sep) : fsPath;
+        }
+    };
+}
@@ -0,0 +1,100 @@
+// src/openReference.ts
+//
+// Maps references to combined files back to the editor: `src/a.ts@3f2a9c1b`, as written by
+// `fileCombine.fileAnchors`, optionally followed by `:42` or `#L40-50`.
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { debugLog, shortContentHash } from './utils';
+
+const FILE_REFERENCE = /^(.+?)(?:@([0-9a-f]{8}))?(?::(\d+)(?::\d+)?|#L(\d+)(?:-L?(\d+))?)?$/;
+
+export interface FileReference {
+    path: string;
+    contentHash?: string;
+    startLine?: number;
+    endLine?: number;
+}
+
+export function parseFileReference(reference: string): FileReference | undefined {
+    const match = FILE_REFERENCE.exec(reference.trim().replace(/^`|`$/g, ''));
+    if (!match) { return undefined; }
+    const startLine = match[3] ?? match[4];
+    return {
+        path: match[1],
+        contentHash: match[2],
+        startLine: startLine !== undefined ? Number(startLine) : undefined,
+        endLine: match[5] !== undefined ? Number(match[5]) : undefined
+    };
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Resolves a path relative to a workspace folder, or prefixed with the folder's name as in multi-root output.
+async function resolveReferencePath(referencePath: string): Promise<vscode.Uri | undefined> {
+    if (path.isAbsolute(referencePath)) { return vscode.Uri.file(referencePath); }
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const candidates = [vscode.Uri.joinPath(folder.uri, referencePath)];
+        if (referencePath.startsWith(`${folder.name}/`)) {
+            candidates.unshift(vscode.Uri.joinPath(folder.uri, referencePath.slice(folder.name.length + 1)));
+        }
+        for (const candidate of candidates) {
+            if (await exists(candidate)) { return candidate; }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Opens a combined file beside the current editor, selecting `startLine`-`endLine` when given.
+ * Warns when the file has changed since the version with `contentHash` was combined, since the
+ * line numbers may no longer match.
+ */
+export async function openFileAt(uri: vscode.Uri, startLine?: number, endLine?: number, contentHash?: string) {
+    try {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const editor = await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+        if (startLine !== undefined) {
+            const lastLine = document.lineCount - 1;
+            const start = document.lineAt(Math.min(Math.max(startLine - 1, 0), lastLine));
+            const end = document.lineAt(Math.min(Math.max((endLine ?? startLine) - 1, 0), lastLine));
+            editor.selection = new vscode.Selection(start.range.start, end.range.end);
+            editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenter);
+        }
+        if (contentHash) {
+            const current = shortContentHash(await vscode.workspace.fs.readFile(uri));
+            if (current !== contentHash) {
+                vscode.window.showWarningMessage(`${vscode.workspace.asRelativePath(uri)} has changed since it was combined (${contentHash}, now ${current}); line numbers may not match.`);
+            }
+        }
+    } catch (error) {
+        debugLog(`Error opening ${uri.fsPath}:`, error);
+        vscode.window.showErrorMessage(`Could not open ${uri.fsPath}`);
+    }
+}
+
+// Asks for a reference such as `src/a.ts@3f2a9c1b:42`, defaulting to the selected text, and opens it.
+export async function openReferenceCommand() {
+    const editor = vscode.window.activeTextEditor;
+    const selected = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection).trim() : '';
+    const reference = await vscode.window.showInputBox({
+        prompt: 'Open a file referenced in a response',
+        placeHolder: 'src/a.ts@3f2a9c1b:42, src/a.ts:42 or src/a.ts#L40-50',
+        value: selected.includes('\n') ? '' : selected
+    });
+    if (!reference) { return; }
+
+    const parsed = parseFileReference(reference);
+    const uri = parsed && await resolveReferencePath(parsed.path);
+    if (!parsed || !uri) {
+        vscode.window.showWarningMessage(`Could not find a file for ${reference}.`);
+        return;
+    }
+    await openFileAt(uri, parsed.startLine, parsed.endLine, parsed.contentHash);
+}
@@ -0,0 +1,230 @@
+// src/outline.ts
+
+import type * as ts from 'typescript';
+
+// Initializers longer than this, or spanning several lines, are elided from outlined declarations.
+const MAX_INLINE_INITIALIZER = 80;
+const INDENT = '    ';
+
+const TYPESCRIPT_LANGUAGES = new Set(['typescript', 'tsx', 'javascript', 'jsx']);
+
+// The compiler is large, so it is only loaded the first time a TypeScript or JavaScript file needs parsing.
+let typescriptPromise: Promise<typeof ts> | undefined;
+export function loadTypeScript(): Promise<typeof ts> {
+    typescriptPromise ??= import('typescript');
+    return typescriptPromise;
+}
+
+interface Replacement {
+    start: number;
+    end: number;
+    text: string;
+}
+
+class TypeScriptOutliner {
+    private readonly lines: string[] = [];
+
+    constructor(private readonly tsModule: typeof ts, private readonly sourceFile: ts.SourceFile) { }
+
+    public outline(): string {
+        for (const statement of this.sourceFile.statements) {
+            this.statement(statement, '');
+        }
+        return this.lines.join('\n');
+    }
+
+    private statement(node: ts.Statement, indent: string) {
+        const t = this.tsModule;
+        if (t.isImportDeclaration(node) || t.isImportEqualsDeclaration(node) || t.isExportDeclaration(node) || t.isExportAssignment(node)
+            || t.isInterfaceDeclaration(node) || t.isTypeAliasDeclaration(node) || t.isEnumDeclaration(node)) {
+            this.emit(node, indent, this.text(node));
+        } else if (t.isFunctionDeclaration(node)) {
+            this.emit(node, indent, this.withoutBody(node, node.body));
+        } else if (t.isClassDeclaration(node)) {
+            this.emit(node, indent, this.source(node.getStart(), node.members.pos).trimEnd());
+            for (const member of node.members) {
+                this.classMember(member, indent + INDENT);
+            }
+            this.lines.push(`${indent}}`);
+        } else if (t.isModuleDeclaration(node) && node.body && t.isModuleBlock(node.body)) {
+            this.emit(node, indent, this.source(node.getStart(), node.body.statements.pos).trimEnd());
+            for (const statement of node.body.statements) {
+                this.statement(statement, indent + INDENT);
+            }
+            this.lines.push(`${indent}}`);
+        } else if (t.isModuleDeclaration(node)) {
+            this.emit(node, indent, this.text(node));
+        } else if (t.isVariableStatement(node)) {
+            const replacements = node.declarationList.declarations.flatMap(declaration => this.elideInitializer(declaration.initializer));
+            this.emit(node, indent, this.replace(node, replacements));
+        }
+        // Anything else (expression statements, control flow) is implementation detail and left out.
+    }
+
+    private classMember(node: ts.ClassElement, indent: string) {
+        const t = this.tsModule;
+        if (t.isMethodDeclaration(node) || t.isConstructorDeclaration(node) || t.isGetAccessorDeclaration(node) || t.isSetAccessorDeclaration(node)) {
+            this.emit(node, indent, this.withoutBody(node, node.body));
+        } else if (t.isPropertyDeclaration(node)) {
+            this.emit(node, indent, this.replace(node, this.elideInitializer(node.initializer)));
+        } else if (t.isIndexSignatureDeclaration(node)) {
+            this.emit(node, indent, this.text(node));
+        }
+    }
+
+    // Function-valued initializers keep their signature; other long initializers become `...`.
+    private elideInitializer(initializer: ts.Expression | undefined): Replacement[] {
+        const t = this.tsModule;
+        if (!initializer) { return []; }
+        if ((t.isArrowFunction(initializer) || t.isFunctionExpression(initializer)) && t.isBlock(initializer.body)) {
+            return [{ start: initializer.body.getStart(), end: initializer.body.end, text: '{ ... }' }];
+        }
+        const text = initializer.getText(this.sourceFile);
+        if (text.length > MAX_INLINE_INITIALIZER || text.includes('\n')) {
+            return [{ start: initializer.getStart(), end: initializer.end, text: '...' }];
+        }
+        return [];
+    }
+
+    private withoutBody(node: ts.Node, body: ts.Node | undefined): string {
+        if (!body) { return this.text(node); }
+        return `${this.source(node.getStart(), body.getStart()).trimEnd()} { ... }`;
+    }
+
+    private replace(node: ts.Node, replacements: Replacement[]): string {
+        let text = '';
+        let position = node.getStart();
+        for (const replacement of replacements) {
+            text += this.source(position, replacement.start) + replacement.text;
+            position = replacement.end;
+        }
+        return text + this.source(position, node.end);
+    }
+
+    private emit(node: ts.Node, indent: string, text: string) {
+        const docComment = this.docComment(node);
+        if (docComment) {
+            this.lines.push(indent + docComment);
+        }
+        this.lines.push(indent + text);
+    }
+
+    // The JSDoc comment directly above the node, if any. Other comments are dropped.
+    private docComment(node: ts.Node): string | undefined {
+        const ranges = this.tsModule.getLeadingCommentRanges(this.sourceFile.text, node.getFullStart()) ?? [];
+        const docRanges = ranges.filter(range => this.source(range.pos, range.end).startsWith('/**'));
+        const last = docRanges[docRanges.length - 1];
+        return last ? this.source(last.pos, last.end) : undefined;
+    }
+
+    private text(node: ts.Node): string {
+        return this.source(node.getStart(), node.end);
+    }
+
+    private source(start: number, end: number): string {
+        return this.sourceFile.text.slice(start, end);
+    }
+}
+
+const PYTHON_DECLARATION = /^\s*(?:@\w|(?:async\s+)?def\s|class\s|import\s|from\s+\S+\s+import\s)/;
+const RUBY_DECLARATION = /^\s*(?:def|class|module|require|require_relative|include|extend|attr_\w+)\b/;
+const MARKDOWN_HEADING = /^#{1,6}\s/;
+const C_LIKE_DECLARATION = new RegExp(
+    '^\\s*(?:(?:export|pub(?:\\([\\w:]+\\))?|public|private|protected|internal|static|abstract|final|sealed|async|virtual|override|extern|inline|unsafe|open|data|suspend)\\s+)*'
+    + '(?:func|fn|def|class|struct|enum|interface|trait|impl|type|module|namespace|object|record|package|import|use|using|mod|#include|#define)\\b'
+    + '|^\\s*(?:public|private|protected|internal)\\b.*\\('
+);
+const DOC_COMMENT = /^\s*(?:\/\/\/|\/\*\*|\*)/;
+
+const PYTHON_BLOCK = /^\s*(?:async\s+)?(?:def|class)\s/;
+const PYTHON_SIGNATURE_END = /:\s*(?:#.*)?$/;
+const PYTHON_DOCSTRING = /^\s*[rRuU]?("""|''')/;
+
+const HEURISTIC_PATTERNS: { [languageId: string]: RegExp[] } = {
+    python: [PYTHON_DECLARATION],
+    ruby: [RUBY_DECLARATION],
+    markdown: [MARKDOWN_HEADING],
+    mdx: [MARKDOWN_HEADING]
+};
+for (const languageId of ['go', 'rust', 'java', 'kotlin', 'scala', 'csharp', 'c', 'cpp', 'swift', 'php', 'dart', 'groovy']) {
+    HEURISTIC_PATTERNS[languageId] = [C_LIKE_DECLARATION, DOC_COMMENT];
+}
+
+// How far `line` opens (positive) or closes (negative) brackets, ignoring strings and comments.
+function bracketDepthChange(line: string): number {
+    const code = line.replace(/(["'])(?:\\.|(?!\1).)*\1/g, '').replace(/#.*$/, '');
+    return (code.match(/[([{]/g)?.length ?? 0) - (code.match(/[)\]}]/g)?.length ?? 0);
+}
+
+/**
+ * Finds the end of the `def` or `class` signature at `start`, which may wrap over several lines
+ * inside its brackets. `body` is false for one-line definitions such as `def f(): pass`.
+ */
+function findPythonSignature(lines: string[], start: number): { end: number; body: boolean } {
+    let depth = 0;
+    for (let index = start; index < lines.length; index++) {
+        depth += bracketDepthChange(lines[index]);
+        if (depth > 0) { continue; }
+        return { end: index, body: PYTHON_SIGNATURE_END.test(lines[index]) };
+    }
+    return { end: start, body: false };
+}
+
+// The docstring opening a body whose signature ends at `signatureEnd`, if the body starts with one.
+function findPythonDocstring(lines: string[], signatureEnd: number): { start: number; end: number } | undefined {
+    let index = signatureEnd + 1;
+    while (index < lines.length && lines[index].trim() === '') { index++; }
+    const open = PYTHON_DOCSTRING.exec(lines[index] ?? '');
+    if (!open) { return undefined; }
+    let end = index;
+    if (!lines[index].slice(open[0].length).includes(open[1])) {
+        end++;
+        while (end < lines.length && !lines[end].includes(open[1])) { end++; }
+    }
+    return { start: index, end: Math.min(end, lines.length - 1) };
+}
+
+// Keeps declaration-looking lines, and a Python definition's whole signature and docstring; a trailing `{` opening a body is marked as elided.
+function outlineByHeuristic(content: string, languageId: string): string {
+    const lines = content.split('\n');
+    const patterns = HEURISTIC_PATTERNS[languageId];
+    const outline: string[] = [];
+    const keep = (start: number, end: number) => outline.push(...lines.slice(start, end + 1).map(line => line.trimEnd()));
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        if (!patterns.some(pattern => pattern.test(line))) { continue; }
+        if (languageId !== 'python' || !PYTHON_BLOCK.test(line)) {
+            outline.push(line.trimEnd().replace(/\{$/, '{ ... }'));
+            continue;
+        }
+        const signature = findPythonSignature(lines, index);
+        keep(index, signature.end);
+        index = signature.end;
+        const docstring = signature.body ? findPythonDocstring(lines, signature.end) : undefined;
+        if (docstring) {
+            keep(docstring.start, docstring.end);
+            index = docstring.end;
+        }
+    }
+    return outline.join('\n');
+}
+
+/**
+ * Reduces a file to its outline: imports, exports, type declarations, class and function
+ * signatures and doc comments. TypeScript and JavaScript are parsed with the TypeScript
+ * compiler; other languages use a line-based heuristic. Resolves to undefined when the
+ * language has no outline support or the outline would be empty.
+ */
+export async function createOutline(content: string, fileName: string, languageId: string): Promise<string | undefined> {
+    let outline: string;
+    if (TYPESCRIPT_LANGUAGES.has(languageId)) {
+        const tsModule = await loadTypeScript();
+        const sourceFile = tsModule.createSourceFile(fileName, content, tsModule.ScriptTarget.Latest, true);
+        outline = new TypeScriptOutliner(tsModule, sourceFile).outline();
+    } else if (HEURISTIC_PATTERNS[languageId]) {
+        outline = outlineByHeuristic(content, languageId);
+    } else {
+        return undefined;
+    }
+    return outline.trim().length > 0 ? outline : undefined;
+}
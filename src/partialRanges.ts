@@ -0,0 +1,178 @@
+// src/partialRanges.ts
+//
+// Partial inclusion: `path#L120-300` and `path::ClassName` entries select parts of a file. Only those
+// parts are output, with their line numbers and an elision marker for each stretch left out.
+import type * as ts from 'typescript';
+import { loadTypeScript } from './outline';
+import { LineRange, PartialSelection } from './types';
+
+const LINE_RANGE_SUFFIX = /#L(\d+)(?:-L?(\d+))?$/;
+const SYMBOL_SEPARATOR = '::';
+const TYPESCRIPT_LANGUAGES = new Set(['typescript', 'tsx', 'javascript', 'jsx']);
+
+export function isLineRange(selection: PartialSelection): selection is LineRange {
+    return 'startLine' in selection;
+}
+
+/**
+ * Splits `src/big.ts#L120-300`, `src/big.ts#L42` or `src/big.ts::ClassName.method` into the path
+ * and the part it selects. Entries without either suffix select the whole file.
+ */
+export function parsePartialSpec(entry: string): { path: string; selection?: PartialSelection } {
+    const lineMatch = LINE_RANGE_SUFFIX.exec(entry);
+    if (lineMatch) {
+        const start = Number(lineMatch[1]);
+        const end = lineMatch[2] !== undefined ? Number(lineMatch[2]) : start;
+        return { path: entry.slice(0, lineMatch.index), selection: { startLine: Math.min(start, end), endLine: Math.max(start, end) } };
+    }
+    const symbolIndex = entry.lastIndexOf(SYMBOL_SEPARATOR);
+    if (symbolIndex > 0 && symbolIndex + SYMBOL_SEPARATOR.length < entry.length) {
+        return { path: entry.slice(0, symbolIndex), selection: { symbol: entry.slice(symbolIndex + SYMBOL_SEPARATOR.length) } };
+    }
+    return { path: entry };
+}
+
+export function formatPartialSpec(filePath: string, selection?: PartialSelection): string {
+    if (!selection) { return filePath; }
+    if (!isLineRange(selection)) { return `${filePath}${SYMBOL_SEPARATOR}${selection.symbol}`; }
+    return selection.startLine === selection.endLine
+        ? `${filePath}#L${selection.startLine}`
+        : `${filePath}#L${selection.startLine}-${selection.endLine}`;
+}
+
+export function formatLineRanges(ranges: LineRange[]): string {
+    return ranges.map(range => range.startLine === range.endLine ? `${range.startLine}` : `${range.startLine}-${range.endLine}`).join(', ');
+}
+
+function elisionMarker(startLine: number, endLine: number): string {
+    return startLine === endLine ? `... [line ${startLine} omitted]` : `... [lines ${startLine}-${endLine} omitted]`;
+}
+
+// Clamps the ranges to the file, then sorts and merges overlapping or adjacent ones.
+function normalizeRanges(ranges: LineRange[], lineCount: number): LineRange[] {
+    const clamped = ranges
+        .map(range => ({ startLine: Math.max(range.startLine, 1), endLine: Math.min(range.endLine, lineCount) }))
+        .filter(range => range.startLine <= range.endLine)
+        .sort((a, b) => a.startLine - b.startLine);
+    const merged: LineRange[] = [];
+    for (const range of clamped) {
+        const last = merged[merged.length - 1];
+        if (last && range.startLine <= last.endLine + 1) {
+            last.endLine = Math.max(last.endLine, range.endLine);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+}
+
+/**
+ * Prefixes each line with its line number, right-aligned to `width` digits. A final newline is
+ * dropped rather than numbered as an empty line.
+ */
+export function numberLines(text: string, firstLine = 1, width?: number): string {
+    const lines = text.split('\n');
+    if (text.endsWith('\n')) {
+        lines.pop();
+    }
+    const digits = width ?? String(firstLine + lines.length - 1).length;
+    return lines.map((line, index) => `${String(firstLine + index).padStart(digits)} | ${line}`).join('\n');
+}
+
+/**
+ * Keeps only `ranges` of `content`, each line prefixed with its line number, and puts an elision
+ * marker where lines were left out. `transform` is applied to the text of each range before it is
+ * numbered, e.g. to redact secrets. Returns undefined when no range lies within the file.
+ */
+export function extractLineRanges(
+    content: string,
+    ranges: LineRange[],
+    transform: (text: string) => string = text => text
+): { content: string; ranges: LineRange[] } | undefined {
+    const lines = content.split('\n');
+    if (content.endsWith('\n')) {
+        lines.pop();
+    }
+    const kept = normalizeRanges(ranges, lines.length);
+    if (kept.length === 0) { return undefined; }
+
+    const width = String(kept[kept.length - 1].endLine).length;
+    const output: string[] = [];
+    let nextLine = 1;
+    for (const range of kept) {
+        if (range.startLine > nextLine) {
+            output.push(elisionMarker(nextLine, range.startLine - 1));
+        }
+        output.push(numberLines(transform(lines.slice(range.startLine - 1, range.endLine).join('\n')), range.startLine, width));
+        nextLine = range.endLine + 1;
+    }
+    if (nextLine <= lines.length) {
+        output.push(elisionMarker(nextLine, lines.length));
+    }
+    return { content: output.join('\n'), ranges: kept };
+}
+
+function declarationName(tsModule: typeof ts, node: ts.Node): string | undefined {
+    if (tsModule.isVariableStatement(node)) {
+        const names = node.declarationList.declarations.map(declaration => declarationName(tsModule, declaration));
+        return names.length === 1 ? names[0] : undefined;
+    }
+    const name = (node as { name?: ts.Node }).name;
+    return name && (tsModule.isIdentifier(name) || tsModule.isStringLiteral(name) || tsModule.isPrivateIdentifier(name)) ? name.text : undefined;
+}
+
+function declarationMembers(tsModule: typeof ts, node: ts.Node): readonly ts.Node[] {
+    if (tsModule.isClassLike(node) || tsModule.isInterfaceDeclaration(node) || tsModule.isEnumDeclaration(node)) { return node.members; }
+    if (tsModule.isModuleDeclaration(node) && node.body && tsModule.isModuleBlock(node.body)) { return node.body.statements; }
+    if (tsModule.isVariableStatement(node)) {
+        const initializer = node.declarationList.declarations[0]?.initializer;
+        if (initializer && (tsModule.isClassExpression(initializer) || tsModule.isObjectLiteralExpression(initializer))) {
+            return tsModule.isClassExpression(initializer) ? initializer.members : initializer.properties;
+        }
+    }
+    return [];
+}
+
+/**
+ * Finds a top-level declaration, or a member of one with a dotted path such as `ClassName.method`,
+ * in a TypeScript or JavaScript file. The range includes the declaration's doc comment.
+ */
+export async function findTypeScriptSymbol(content: string, fileName: string, languageId: string, symbol: string): Promise<LineRange | undefined> {
+    if (!TYPESCRIPT_LANGUAGES.has(languageId)) { return undefined; }
+    const tsModule = await loadTypeScript();
+    const sourceFile = tsModule.createSourceFile(fileName, content, tsModule.ScriptTarget.Latest, true);
+
+    let candidates: readonly ts.Node[] = sourceFile.statements;
+    let found: ts.Node | undefined;
+    for (const name of symbol.split('.')) {
+        found = candidates.find(node => declarationName(tsModule, node) === name);
+        if (!found) { return undefined; }
+        candidates = declarationMembers(tsModule, found);
+    }
+    if (!found) { return undefined; }
+    const start = sourceFile.getLineAndCharacterOfPosition(found.getStart(sourceFile, true));
+    const end = sourceFile.getLineAndCharacterOfPosition(found.getEnd());
+    return { startLine: start.line + 1, endLine: end.line + 1 };
+}
+
+/**
+ * Groups parsed entries into the paths to combine and the parts to include of each. A file that is
+ * also listed without a part is included whole.
+ */
+export function groupPartialSelections(entries: { fsPath: string; selection?: PartialSelection }[]): { paths: string[]; partials: Map<string, PartialSelection[]> } {
+    const paths: string[] = [];
+    const partials = new Map<string, PartialSelection[]>();
+    const wholeFiles = new Set<string>();
+    for (const { fsPath, selection } of entries) {
+        if (!paths.includes(fsPath)) {
+            paths.push(fsPath);
+        }
+        if (!selection) {
+            wholeFiles.add(fsPath);
+        } else {
+            partials.set(fsPath, [...partials.get(fsPath) ?? [], selection]);
+        }
+    }
+    wholeFiles.forEach(fsPath => partials.delete(fsPath));
+    return { paths, partials };
+}
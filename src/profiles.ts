@@ -0,0 +1,220 @@
+// src/profiles.ts
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { applyEdits, modify, parse as parseJsonc, ParseError } from 'jsonc-parser';
+import { combineFiles } from './fileProcessor';
+import { ExportTarget, exportToFile, startWatching } from './exportFile';
+import { groupPartialSelections, parsePartialSpec } from './partialRanges';
+import { CombineOptions, CombineProfile, OutputFormat, PartialSelection } from './types';
+import { debugLog } from './utils';
+
+const PROFILES_FILE = '.vscode/filecombine.json';
+const GLOB_CHARACTERS = /[*?[\]{}]/;
+
+interface ProfilesFile {
+    // The file's text, kept so saving a profile leaves comments and other entries as they are.
+    text: string;
+    profiles: { [name: string]: CombineProfile };
+    // Entries that are not a valid profile, such as ones without a `paths` array.
+    invalid: string[];
+}
+
+function isCombineProfile(value: unknown): value is CombineProfile {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) { return false; }
+    const profile = value as { [key: string]: unknown };
+    const isStringArray = (entry: unknown) => Array.isArray(entry) && entry.every(item => typeof item === 'string');
+    return isStringArray(profile.paths)
+        && (profile.excludePatterns === undefined || isStringArray(profile.excludePatterns))
+        && (profile.llmInstructions === undefined || typeof profile.llmInstructions === 'string')
+        && (profile.outputFormat === undefined || typeof profile.outputFormat === 'string');
+}
+
+function getProfilesRoot(): vscode.WorkspaceFolder | undefined {
+    return vscode.workspace.workspaceFolders?.[0];
+}
+
+function getProfilesUri(root: vscode.WorkspaceFolder): vscode.Uri {
+    return vscode.Uri.joinPath(root.uri, PROFILES_FILE);
+}
+
+async function readProfilesFile(root: vscode.WorkspaceFolder): Promise<ProfilesFile> {
+    let contentBytes: Uint8Array;
+    try {
+        contentBytes = await vscode.workspace.fs.readFile(getProfilesUri(root));
+    } catch (error) {
+        if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+            return { text: '{}\n', profiles: {}, invalid: [] };
+        }
+        throw error;
+    }
+    const text = Buffer.from(contentBytes).toString();
+    const errors: ParseError[] = [];
+    const parsed = parseJsonc(text, errors, { allowTrailingComma: true });
+    if (errors.length > 0 || typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('the file is not a valid JSON object');
+    }
+    const entries: unknown = parsed.profiles ?? {};
+    if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+        throw new Error('"profiles" must be an object');
+    }
+    const profilesFile: ProfilesFile = { text, profiles: {}, invalid: [] };
+    for (const [name, profile] of Object.entries(entries)) {
+        if (isCombineProfile(profile)) {
+            profilesFile.profiles[name] = profile;
+        } else {
+            profilesFile.invalid.push(name);
+        }
+    }
+    return profilesFile;
+}
+
+async function writeProfile(root: vscode.WorkspaceFolder, profilesFile: ProfilesFile, name: string, profile: CombineProfile) {
+    const edits = modify(profilesFile.text, ['profiles', name], profile, { formattingOptions: { insertSpaces: true, tabSize: 4 } });
+    await vscode.workspace.fs.writeFile(getProfilesUri(root), Buffer.from(applyEdits(profilesFile.text, edits)));
+}
+
+async function loadProfilesOrWarn(root: vscode.WorkspaceFolder): Promise<ProfilesFile | undefined> {
+    try {
+        const profilesFile = await readProfilesFile(root);
+        if (profilesFile.invalid.length > 0) {
+            vscode.window.showWarningMessage(`Skipping ${profilesFile.invalid.map(name => `"${name}"`).join(', ')} in ${PROFILES_FILE}: each profile needs a "paths" list of strings.`);
+        }
+        return profilesFile;
+    } catch (error) {
+        debugLog(`Error reading ${PROFILES_FILE}:`, error);
+        vscode.window.showErrorMessage(`Could not read ${PROFILES_FILE}: ${error instanceof Error ? error.message : error}`);
+        return undefined;
+    }
+}
+
+async function pickProfileName(profilesFile: ProfilesFile, placeHolder: string): Promise<string | undefined> {
+    const names = Object.keys(profilesFile.profiles);
+    if (names.length === 0) {
+        vscode.window.showInformationMessage(`No combine profiles saved yet. Use "Save Selection as Profile" to create one.`);
+        return undefined;
+    }
+    const items = names.map(name => ({
+        label: name,
+        description: `${profilesFile.profiles[name].paths.length} path(s)`,
+        detail: profilesFile.profiles[name].paths.join(', ')
+    }));
+    return (await vscode.window.showQuickPick(items, { placeHolder }))?.label;
+}
+
+/**
+ * Resolves the stored profile paths against the workspace root. Entries containing glob characters
+ * are expanded with `findFiles`; everything else is treated as a file or folder path, optionally
+ * narrowed to part of a file with `#L120-300` or `::Symbol`.
+ */
+async function resolveProfileUris(root: vscode.WorkspaceFolder, profile: CombineProfile): Promise<{ uris: vscode.Uri[]; partials: Map<string, PartialSelection[]> }> {
+    const entries: { fsPath: string; selection?: PartialSelection }[] = [];
+    for (const entry of profile.paths) {
+        if (GLOB_CHARACTERS.test(entry)) {
+            const matches = await vscode.workspace.findFiles(new vscode.RelativePattern(root, entry));
+            entries.push(...matches.map(uri => ({ fsPath: uri.fsPath })));
+            continue;
+        }
+        const { path: entryPath, selection } = parsePartialSpec(entry);
+        entries.push({ fsPath: path.isAbsolute(entryPath) ? path.normalize(entryPath) : vscode.Uri.joinPath(root.uri, entryPath).fsPath, selection });
+    }
+    const { paths, partials } = groupPartialSelections(entries);
+    return { uris: paths.map(fsPath => vscode.Uri.file(fsPath)), partials };
+}
+
+// Asks for a profile and resolves its paths and options.
+async function pickProfileTarget(placeHolder: string): Promise<ExportTarget | undefined> {
+    const root = getProfilesRoot();
+    if (!root) {
+        vscode.window.showWarningMessage('Open a workspace folder to use combine profiles.');
+        return undefined;
+    }
+    const profilesFile = await loadProfilesOrWarn(root);
+    if (!profilesFile) { return undefined; }
+
+    const name = await pickProfileName(profilesFile, placeHolder);
+    if (!name) { return undefined; }
+
+    const profile = profilesFile.profiles[name];
+    const { uris, partials } = await resolveProfileUris(root, profile);
+    const options: CombineOptions = {
+        excludePatterns: profile.excludePatterns,
+        llmInstructions: profile.llmInstructions,
+        outputFormat: profile.outputFormat,
+        partials
+    };
+    return { uris, options, name };
+}
+
+export async function runProfile(extensionUri: vscode.Uri) {
+    const target = await pickProfileTarget('Select a profile to run');
+    if (!target) { return; }
+    await combineFiles(target.uris, extensionUri, target.options);
+}
+
+export async function exportProfile(watch: boolean) {
+    const target = await pickProfileTarget(watch ? 'Select a profile to export and keep up to date' : 'Select a profile to export');
+    if (!target) { return; }
+    await (watch ? startWatching(target) : exportToFile(target));
+}
+
+export async function saveSelectionAsProfile(uris: vscode.Uri[]) {
+    const root = getProfilesRoot();
+    if (!root) {
+        vscode.window.showWarningMessage('Open a workspace folder to use combine profiles.');
+        return;
+    }
+    if (uris.length === 0) {
+        vscode.window.showWarningMessage('No files or folders selected.');
+        return;
+    }
+    const profilesFile = await loadProfilesOrWarn(root);
+    if (!profilesFile) { return; }
+
+    const name = await vscode.window.showInputBox({
+        prompt: 'Profile name',
+        placeHolder: 'e.g. api-and-schema',
+        validateInput: value => value.trim() ? undefined : 'Enter a profile name.'
+    });
+    if (!name) { return; }
+
+    const profileName = name.trim();
+    if (profilesFile.profiles[profileName] || profilesFile.invalid.includes(profileName)) {
+        const overwrite = await vscode.window.showWarningMessage(`Profile "${profileName}" already exists. Overwrite it?`, { modal: true }, 'Overwrite');
+        if (overwrite !== 'Overwrite') { return; }
+    }
+
+    const config = vscode.workspace.getConfiguration('fileCombine');
+    const profile: CombineProfile = {
+        paths: uris.map(uri => path.relative(root.uri.fsPath, uri.fsPath).split(path.sep).join(path.posix.sep) || '.'),
+        excludePatterns: config.get<string[]>('excludePatterns'),
+        llmInstructions: config.get<string>('llmInstructions'),
+        outputFormat: config.get<OutputFormat>('outputFormat')
+    };
+
+    try {
+        await writeProfile(root, profilesFile, profileName, profile);
+        vscode.window.showInformationMessage(`Saved combine profile "${profileName}" to ${PROFILES_FILE}.`);
+    } catch (error) {
+        debugLog(`Error writing ${PROFILES_FILE}:`, error);
+        vscode.window.showErrorMessage(`Could not save profile: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+export async function editProfile() {
+    const root = getProfilesRoot();
+    if (!root) {
+        vscode.window.showWarningMessage('Open a workspace folder to use combine profiles.');
+        return;
+    }
+    const profilesFile = await loadProfilesOrWarn(root);
+    if (!profilesFile) { return; }
+
+    const name = await pickProfileName(profilesFile, 'Select a profile to edit');
+    if (!name) { return; }
+
+    const document = await vscode.workspace.openTextDocument(getProfilesUri(root));
+    const offset = document.getText().indexOf(JSON.stringify(name) + ':');
+    const position = document.positionAt(Math.max(offset, 0));
+    await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+}
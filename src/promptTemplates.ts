@@ -0,0 +1,114 @@
+// src/promptTemplates.ts
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { combineFiles } from './fileProcessor';
+import { TEMPLATE_PLACEHOLDER } from './formatters';
+import { getCurrentBranch } from './gitSource';
+import { PromptTemplate } from './types';
+import { debugLog } from './utils';
+
+const DEFAULT_TEMPLATES_FOLDER = '.vscode/prompts';
+const TEMPLATE_FILE_EXTENSIONS = new Set(['.md', '.txt', '.prompt']);
+
+interface NamedTemplate {
+    name: string;
+    text: string;
+    // Where the template was found, shown in the quick pick.
+    source: string;
+}
+
+// Settings templates may be a single string or an array of lines, which is easier to edit in settings.json.
+function readSettingsTemplates(): NamedTemplate[] {
+    const configured = vscode.workspace.getConfiguration('fileCombine').get<{ [name: string]: string | string[] }>('promptTemplates', {});
+    return Object.entries(configured)
+        .filter(([, text]) => typeof text === 'string' || Array.isArray(text))
+        .map(([name, text]) => ({ name, text: Array.isArray(text) ? text.join('\n') : text, source: 'settings' }));
+}
+
+async function readFolderTemplates(): Promise<NamedTemplate[]> {
+    const folderSetting = vscode.workspace.getConfiguration('fileCombine').get<string>('promptTemplatesFolder', DEFAULT_TEMPLATES_FOLDER);
+    if (!folderSetting) { return []; }
+    const templates: NamedTemplate[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const templatesUri = vscode.Uri.joinPath(folder.uri, folderSetting);
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(templatesUri);
+        } catch {
+            continue;
+        }
+        for (const [fileName, type] of entries) {
+            if (type !== vscode.FileType.File || !TEMPLATE_FILE_EXTENSIONS.has(path.extname(fileName))) { continue; }
+            try {
+                const contentBytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(templatesUri, fileName));
+                templates.push({
+                    name: path.basename(fileName, path.extname(fileName)),
+                    text: Buffer.from(contentBytes).toString(),
+                    source: vscode.workspace.asRelativePath(vscode.Uri.joinPath(templatesUri, fileName))
+                });
+            } catch (error) {
+                debugLog(`Error reading prompt template ${fileName}:`, error);
+            }
+        }
+    }
+    return templates;
+}
+
+// Templates from the workspace folder replace settings templates of the same name.
+async function loadPromptTemplates(): Promise<NamedTemplate[]> {
+    const byName = new Map<string, NamedTemplate>();
+    for (const template of [...readSettingsTemplates(), ...await readFolderTemplates()]) {
+        byName.set(template.name, template);
+    }
+    return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Fills in the placeholders only the editor knows: `{{gitBranch}}`, `{{selection}}` (the text
+ * selected in the active editor) and `{{input}}` / `{{input:Prompt}}`, which ask the user once per
+ * distinct prompt. Resolves to undefined when an input box is dismissed.
+ */
+async function resolveEditorValues(text: string, uris: vscode.Uri[]): Promise<PromptTemplate['values'] | undefined> {
+    const names = new Set(Array.from(text.matchAll(TEMPLATE_PLACEHOLDER), match => match[1].trim()));
+    const values: PromptTemplate['values'] = {};
+
+    if (names.has('gitBranch')) {
+        const folder = vscode.workspace.getWorkspaceFolder(uris[0]) ?? vscode.workspace.workspaceFolders?.[0];
+        values.gitBranch = folder ? await getCurrentBranch(folder.uri.fsPath) ?? '' : '';
+    }
+    if (names.has('selection')) {
+        const editor = vscode.window.activeTextEditor;
+        values.selection = editor ? editor.selections.map(selection => editor.document.getText(selection)).filter(Boolean).join('\n\n') : '';
+    }
+    for (const name of names) {
+        if (name !== 'input' && !name.startsWith('input:')) { continue; }
+        const prompt = name === 'input' ? 'Question' : name.slice('input:'.length).trim();
+        const value = await vscode.window.showInputBox({ prompt, ignoreFocusOut: true });
+        if (value === undefined) { return undefined; }
+        values[name] = value;
+    }
+    return values;
+}
+
+export async function combineWithPromptTemplate(uris: vscode.Uri[], extensionUri: vscode.Uri) {
+    if (uris.length === 0) {
+        vscode.window.showWarningMessage('No files or folders selected.');
+        return;
+    }
+    const templates = await loadPromptTemplates();
+    if (templates.length === 0) {
+        const folder = vscode.workspace.getConfiguration('fileCombine').get<string>('promptTemplatesFolder', DEFAULT_TEMPLATES_FOLDER);
+        vscode.window.showInformationMessage(`No prompt templates found. Add them to fileCombine.promptTemplates or as files in ${folder}.`);
+        return;
+    }
+    const picked = await vscode.window.showQuickPick(
+        templates.map(template => ({ label: template.name, description: template.source, detail: template.text.split('\n')[0], template })),
+        { placeHolder: 'Select a prompt template' }
+    );
+    if (!picked) { return; }
+
+    const values = await resolveEditorValues(picked.template.text, uris);
+    if (!values) { return; }
+    await combineFiles(uris, extensionUri, { promptTemplate: { text: picked.template.text, values } });
+}
@@ -0,0 +1,126 @@
+// src/redaction.ts
+
+import { debugLog } from './utils';
+
+export interface RedactionRule {
+    type: string;
+    pattern: RegExp;
+    // When set, capture group 1 is kept (e.g. the `password=` part) and only the rest of the match is redacted.
+    keepPrefix?: boolean;
+}
+
+export interface RedactionResult {
+    content: string;
+    counts: { [type: string]: number };
+}
+
+const SECRET_KEY = '\\b\\w*?(?:password|passwd|pwd|secret|client_?secret|api_?key|access_?token|auth_?token)';
+// Characters that never appear in an unquoted literal secret but do in code and type annotations, such as `string | undefined`.
+const UNQUOTED_VALUE = '[^\\s"\'`,;(){}\\[\\]<>|&]{4,}';
+const LINE_END = '(?=[ \\t]*(?:#.*)?$)';
+
+export const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+    { type: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+    { type: 'aws-access-key', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g },
+    {
+        type: 'aws-secret-key',
+        pattern: /(aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}/gi,
+        keepPrefix: true
+    },
+    { type: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+    { type: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/g },
+    { type: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+    { type: 'api-key', pattern: /\b(?:sk|pk|rk)-(?:live_|test_|proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+    // A quoted value, in code or config; the quotes are kept.
+    {
+        type: 'password',
+        pattern: new RegExp(`(${SECRET_KEY}["']?\\s*[:=]\\s*(["'\`]))(?:(?!\\2)[^\\n]){4,}(?=\\2)`, 'gi'),
+        keepPrefix: true
+    },
+    // `.env` style `DB_PASSWORD=hunter22`, where anything after the `=` up to the end of the line is the value.
+    {
+        type: 'password',
+        pattern: new RegExp(`^([ \\t]*(?:export[ \\t]+)?${SECRET_KEY}=)(?!\\$)${UNQUOTED_VALUE}${LINE_END}`, 'gim'),
+        keepPrefix: true
+    },
+    // An unquoted value filling the rest of a `password: ...` or `password = ...` line, as in YAML or INI files.
+    // Names such as `string`, `Buffer` or `config.password` are types or code, so a value must hold a digit or symbol.
+    {
+        type: 'password',
+        pattern: new RegExp(`^([ \\t]*(?:-[ \\t]+)?${SECRET_KEY}["']?(?::[ \\t]*|[ \\t]*=[ \\t]*))(?![A-Za-z_$.]+${LINE_END})${UNQUOTED_VALUE}${LINE_END}`, 'gim'),
+        keepPrefix: true
+    }
+];
+
+// Long tokens mixing upper case, lower case and digits with high Shannon entropy are almost always keys.
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+/_=-]{32,}/g;
+const HIGH_ENTROPY_THRESHOLD = 4.2;
+
+function shannonEntropy(value: string): number {
+    const frequencies = new Map<string, number>();
+    for (const char of value) {
+        frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of frequencies.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+function isHighEntropySecret(value: string): boolean {
+    return /[a-z]/.test(value) && /[A-Z]/.test(value) && /[0-9]/.test(value)
+        && shannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD;
+}
+
+export function redactionPlaceholder(type: string): string {
+    return `[REDACTED:${type}]`;
+}
+
+/**
+ * Compiles user-defined patterns from `fileCombine.redactionPatterns`. Entries are either a bare
+ * regular expression or `{ name, pattern }`; invalid expressions are skipped and reported back.
+ */
+export function compileCustomRedactionRules(patterns: (string | { name?: string; pattern: string })[]): { rules: RedactionRule[]; invalid: string[] } {
+    const rules: RedactionRule[] = [];
+    const invalid: string[] = [];
+    for (const entry of patterns) {
+        const source = typeof entry === 'string' ? entry : entry.pattern;
+        const type = typeof entry === 'string' ? 'custom' : (entry.name || 'custom');
+        try {
+            rules.push({ type, pattern: new RegExp(source, 'g') });
+        } catch (error) {
+            debugLog(`Invalid redaction pattern ${source}:`, error);
+            invalid.push(source);
+        }
+    }
+    return { rules, invalid };
+}
+
+/**
+ * Replaces every match of `rules`, then any remaining high-entropy token, with `[REDACTED:type]`.
+ * With `keepLines`, a match spanning several lines leaves that many lines behind, so line numbers
+ * added afterwards still match the file.
+ */
+export function redactSecrets(content: string, rules: RedactionRule[], keepLines = false): RedactionResult {
+    const counts: { [type: string]: number } = {};
+    const count = (type: string) => { counts[type] = (counts[type] ?? 0) + 1; };
+
+    for (const rule of rules) {
+        content = content.replace(rule.pattern, (match: string, prefix: unknown) => {
+            count(rule.type);
+            const kept = rule.keepPrefix && typeof prefix === 'string' ? prefix : '';
+            const lineBreaks = keepLines ? match.slice(kept.length).replace(/[^\n]/g, '') : '';
+            return kept + redactionPlaceholder(rule.type) + lineBreaks;
+        });
+    }
+
+    content = content.replace(HIGH_ENTROPY_CANDIDATE, match => {
+        if (!isHighEntropySecret(match)) { return match; }
+        count('high-entropy');
+        return redactionPlaceholder('high-entropy');
+    });
+
+    return { content, counts };
+}
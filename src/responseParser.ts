@@ -0,0 +1,243 @@
+// src/responseParser.ts
+//
+// Reads file changes out of an LLM response written in the formats the extension emits:
+// `## Path:` headings with fenced blocks, `<file path="...">` elements, and unified diffs.
+import { CONVERSION_LABELS } from './formatters';
+import { DiffHunk, ResponseEdit } from './types';
+
+const MARKDOWN_HEADING = /^#{2,3}\s+(Path|Diff):\s*(.+?)\s*$/;
+// The details the markdown formatter adds after the path, such as `(1.2 KB, 300 tokens, outline)`.
+const HEADING_DETAILS = /\s+\(([^()]*)\)$/;
+const FENCE_OPEN = /^(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+// The body is either plain text or, as the XML formatter writes it, a CDATA section opened on the same line.
+const XML_ELEMENT = /^\s*<(file|diff)\s+([^>]*?)\s*>(<!\[CDATA\[)?\s*$/;
+const CDATA_SPLIT = /\]\]\]\]><!\[CDATA\[>/g;
+const XML_ATTRIBUTE = /([\w-]+)="([^"]*)"/g;
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+const NUMBERED_LINE = /^\s*\d+ \|(?: |$)/;
+const ELISION_MARKER = /^\.\.\. \[lines? \d+(?:-\d+)? omitted\]$/;
+const TRUNCATION_MARKER = /^\.\.\. \[truncated \d+ lines\]$/;
+const REDACTION_PLACEHOLDER = /\[REDACTED:[^\]\n]+\]/;
+const DEV_NULL = '/dev/null';
+
+function unescapeXml(value: string): string {
+    return value.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+}
+
+// Reads the fenced block starting at `start`, skipping blank lines and an `Anchor:` line before it.
+function readFencedBlock(lines: string[], start: number): { language: string; content: string; end: number } | undefined {
+    let index = start;
+    while (index < lines.length && (lines[index].trim() === '' || lines[index].startsWith('Anchor: '))) {
+        index++;
+    }
+    const open = FENCE_OPEN.exec(lines[index] ?? '');
+    if (!open) { return undefined; }
+    const fence = open[1];
+    for (let end = index + 1; end < lines.length; end++) {
+        const line = lines[end].trim();
+        if (line.length >= fence.length && line === fence[0].repeat(line.length)) {
+            return { language: open[2], content: lines.slice(index + 1, end).join('\n'), end };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Turns file content from a response into the file's new text. Line number prefixes, as written
+ * by `fileCombine.lineNumbers`, are removed. Content with elided or truncated lines, or with
+ * redacted secrets, cannot be applied, since writing it would lose the rest of the file or the secrets.
+ */
+function contentEdit(filePath: string, content: string, details: string[]): ResponseEdit {
+    if (details.includes('outline')) {
+        return { kind: 'unsupported', path: filePath, reason: 'it is an outline of the file' };
+    }
+    if (Object.values(CONVERSION_LABELS).some(label => details.includes(label))) {
+        return { kind: 'unsupported', path: filePath, reason: 'it is a converted view of the file' };
+    }
+    const lines = content.split('\n');
+    if (lines.some(line => ELISION_MARKER.test(line.trim()))) {
+        return { kind: 'unsupported', path: filePath, reason: 'it shows only part of the file' };
+    }
+    if (details.includes('truncated') || lines.some(line => TRUNCATION_MARKER.test(line.trim()))) {
+        return { kind: 'unsupported', path: filePath, reason: 'it was truncated to fit the token budget' };
+    }
+    if (details.includes('redacted') || REDACTION_PLACEHOLDER.test(content)) {
+        return { kind: 'unsupported', path: filePath, reason: 'it contains redacted secrets' };
+    }
+    const nonEmpty = lines.filter(line => line.trim() !== '');
+    if (nonEmpty.length > 0 && nonEmpty.every(line => NUMBERED_LINE.test(line))) {
+        content = lines.map(line => line.replace(NUMBERED_LINE, '')).join('\n');
+    }
+    return { kind: 'replace', path: filePath, content };
+}
+
+function stripDiffPath(diffPath: string): string {
+    const withoutTimestamp = diffPath.split('\t')[0].trim();
+    return withoutTimestamp === DEV_NULL ? withoutTimestamp : withoutTimestamp.replace(/^[ab]\//, '');
+}
+
+// Whether `index` starts a `--- old` / `+++ new` file header.
+function isFileHeader(lines: string[], index: number): boolean {
+    return lines[index].startsWith('--- ') && (lines[index + 1] ?? '').startsWith('+++ ');
+}
+
+function isHunkLine(line: string): boolean {
+    return line.startsWith(' ') || line.startsWith('-') || line.startsWith('+') || line.startsWith('\\');
+}
+
+/**
+ * Reads the hunks after the file header at `start`. Responses often drop the space in front of
+ * blank context lines, so a blank line is read as context when the hunk continues after it.
+ */
+function readDiff(lines: string[], start: number, fallbackPath?: string): { edit: ResponseEdit; end: number } {
+    const oldPath = stripDiffPath(lines[start].slice(4));
+    const newPath = stripDiffPath(lines[start + 1].slice(4));
+    const filePath = newPath !== DEV_NULL ? newPath : oldPath !== DEV_NULL ? oldPath : fallbackPath ?? '';
+    const hunks: DiffHunk[] = [];
+    let index = start + 2;
+    while (index < lines.length) {
+        const header = HUNK_HEADER.exec(lines[index]);
+        if (!header) { break; }
+        const hunk: DiffHunk = { oldStart: Number(header[1]), oldLines: [], newLines: [] };
+        index++;
+        while (index < lines.length && !isFileHeader(lines, index) && !HUNK_HEADER.test(lines[index])) {
+            let line = lines[index];
+            if (line === '') {
+                let next = index + 1;
+                while (next < lines.length && lines[next] === '') { next++; }
+                if (next >= lines.length || !isHunkLine(lines[next]) || isFileHeader(lines, next)) { break; }
+                line = ' ';
+            } else if (!isHunkLine(line)) {
+                break;
+            }
+            if (line[0] !== '+' && line[0] !== '\\') { hunk.oldLines.push(line.slice(1)); }
+            if (line[0] !== '-' && line[0] !== '\\') { hunk.newLines.push(line.slice(1)); }
+            index++;
+        }
+        hunks.push(hunk);
+    }
+    let edit: ResponseEdit = newPath === DEV_NULL ? { kind: 'delete', path: filePath } : { kind: 'diff', path: filePath, hunks };
+    // Lines holding a placeholder would write it over the secret, or not match the file.
+    if (hunks.some(hunk => hunk.newLines.some(line => REDACTION_PLACEHOLDER.test(line)))) {
+        edit = { kind: 'unsupported', path: filePath, reason: 'it contains redacted secrets' };
+    }
+    return { edit, end: index };
+}
+
+// The diffs in `lines`, such as the body of a ```diff block, using `fallbackPath` for headerless hunks.
+function parseDiffLines(lines: string[], fallbackPath: string): ResponseEdit[] {
+    const edits: ResponseEdit[] = [];
+    let index = 0;
+    while (index < lines.length) {
+        if (isFileHeader(lines, index)) {
+            const { edit, end } = readDiff(lines, index, fallbackPath);
+            edits.push(edit);
+            index = end;
+        } else if (HUNK_HEADER.test(lines[index])) {
+            const { edit, end } = readDiff(['--- ' + fallbackPath, '+++ ' + fallbackPath, ...lines.slice(index)], 0);
+            edits.push(edit);
+            index += end - 2;
+        } else {
+            index++;
+        }
+    }
+    return edits;
+}
+
+/**
+ * Finds the file changes in a response. When a file appears more than once, its last full content
+ * wins over any diff for it, and otherwise the last diff wins.
+ */
+export function parseResponse(text: string): ResponseEdit[] {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const edits = new Map<string, ResponseEdit>();
+    const record = (edit: ResponseEdit) => {
+        if (!edit.path) { return; }
+        const existing = edits.get(edit.path);
+        if (existing?.kind === 'replace' && edit.kind !== 'replace') { return; }
+        edits.delete(edit.path);
+        edits.set(edit.path, edit);
+    };
+
+    let index = 0;
+    while (index < lines.length) {
+        const heading = MARKDOWN_HEADING.exec(lines[index]);
+        if (heading) {
+            const details = HEADING_DETAILS.exec(heading[2]);
+            const filePath = (details ? heading[2].slice(0, details.index) : heading[2]).replace(/^`|`$/g, '');
+            const block = readFencedBlock(lines, index + 1);
+            if (block) {
+                if (heading[1] === 'Diff' || block.language === 'diff') {
+                    parseDiffLines(block.content.split('\n'), filePath).forEach(record);
+                } else {
+                    record(contentEdit(filePath, block.content, (details?.[1] ?? '').split(',').map(detail => detail.trim())));
+                }
+                index = block.end + 1;
+                continue;
+            }
+        }
+
+        const element = XML_ELEMENT.exec(lines[index]);
+        if (element) {
+            const attributes = new Map(Array.from(element[2].matchAll(XML_ATTRIBUTE), match => [match[1], unescapeXml(match[2])]));
+            const cdata = element[3] !== undefined;
+            const end = lines.indexOf(cdata ? `]]></${element[1]}>` : `</${element[1]}>`, index + 1);
+            const filePath = attributes.get('path');
+            if (filePath && end > index) {
+                const body = lines.slice(index + 1, end).map(line => cdata ? line.replace(CDATA_SPLIT, ']]>') : line);
+                if (element[1] === 'diff') {
+                    parseDiffLines(body, filePath).forEach(record);
+                } else {
+                    const converted = attributes.get('converted') as keyof typeof CONVERSION_LABELS | undefined;
+                    record(contentEdit(filePath, body.join('\n'), [
+                        ...['outline', 'truncated', 'redacted'].filter(flag => attributes.get(flag) === 'true'),
+                        ...converted && CONVERSION_LABELS[converted] ? [CONVERSION_LABELS[converted]] : []
+                    ]));
+                }
+                index = end + 1;
+                continue;
+            }
+        }
+
+        if (isFileHeader(lines, index)) {
+            const { edit, end } = readDiff(lines, index);
+            record(edit);
+            index = end;
+            continue;
+        }
+        index++;
+    }
+    return Array.from(edits.values());
+}
+
+function linesMatch(lines: string[], at: number, expected: string[]): boolean {
+    return expected.every((line, offset) => lines[at + offset]?.trimEnd() === line.trimEnd());
+}
+
+/**
+ * Applies the hunks to `original`. Each hunk is looked for near the line its header gives, since
+ * responses often get the line numbers wrong; returns undefined when a hunk's lines are not found.
+ */
+export function applyUnifiedDiff(original: string, hunks: DiffHunk[]): string | undefined {
+    const lines = original.split('\n');
+    const output: string[] = [];
+    let cursor = 0;
+    for (const hunk of hunks) {
+        // `-12,0` inserts after line 12; otherwise the hunk starts at line 12.
+        const expected = hunk.oldLines.length > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+        let at = -1;
+        if (hunk.oldLines.length === 0) {
+            at = Math.min(Math.max(expected, cursor), lines.length);
+        } else {
+            const maxDistance = Math.max(expected, lines.length - expected);
+            for (let distance = 0; at < 0 && distance <= maxDistance; distance++) {
+                at = [expected - distance, expected + distance].find(candidate => candidate >= cursor && linesMatch(lines, candidate, hunk.oldLines)) ?? -1;
+            }
+        }
+        if (at < 0) { return undefined; }
+        output.push(...lines.slice(cursor, at), ...hunk.newLines);
+        cursor = at + hunk.oldLines.length;
+    }
+    output.push(...lines.slice(cursor));
+    return output.join('\n');
+}
@@ -0,0 +1,209 @@
+// src/reviewView.ts
+
+import * as vscode from 'vscode';
+import { describeRule } from './formatters';
+import { ProcessedFile, ProcessingSummary } from './types';
+import { formatFileSize } from './utils';
+
+interface ReviewNode {
+    name: string;
+    path: string;
+    children: Map<string, ReviewNode>;
+    file?: ProcessedFile;
+    // Set for entries that were left out before review (ignored, excluded or binary).
+    skippedReason?: string;
+}
+
+function createNode(name: string, nodePath: string): ReviewNode {
+    return { name, path: nodePath, children: new Map() };
+}
+
+function insertNode(root: ReviewNode, relativePath: string, fill: (node: ReviewNode) => void) {
+    const parts = relativePath.split('/');
+    let current = root;
+    for (let i = 0; i < parts.length; i++) {
+        const nodePath = parts.slice(0, i + 1).join('/');
+        if (!current.children.has(parts[i])) {
+            current.children.set(parts[i], createNode(parts[i], nodePath));
+        }
+        current = current.children.get(parts[i])!;
+    }
+    fill(current);
+}
+
+/**
+ * Tree view shown before combining when `fileCombine.reviewBeforeCombine` is enabled. Every
+ * processed file gets a checkbox; skipped files are listed without one, with the rule that skipped them.
+ */
+export class CombineReviewView implements vscode.TreeDataProvider<ReviewNode> {
+    public static current: CombineReviewView | undefined;
+    private static readonly viewId = 'fileCombine.review';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<ReviewNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private readonly _treeView: vscode.TreeView<ReviewNode>;
+    private _root: ReviewNode = createNode('root', '');
+    private _files: ProcessedFile[] = [];
+    private _unchecked = new Set<ProcessedFile>();
+    private _resolve: ((files: ProcessedFile[] | undefined) => void) | undefined;
+
+    private constructor() {
+        this._treeView = vscode.window.createTreeView(CombineReviewView.viewId, {
+            treeDataProvider: this,
+            manageCheckboxStateManually: true,
+            showCollapseAll: true
+        });
+        this._treeView.onDidChangeCheckboxState(event => this._onCheckboxChange(event));
+        // Nothing is left to press Combine in once the view is closed or its panel hidden.
+        this._treeView.onDidChangeVisibility(event => {
+            if (!event.visible) { this._finish(false); }
+        });
+    }
+
+    public static register(context: vscode.ExtensionContext) {
+        CombineReviewView.current = new CombineReviewView();
+        context.subscriptions.push(
+            CombineReviewView.current,
+            vscode.commands.registerCommand('file-combine.confirmReview', () => CombineReviewView.current?._finish(true)),
+            vscode.commands.registerCommand('file-combine.cancelReview', () => CombineReviewView.current?._finish(false))
+        );
+    }
+
+    /**
+     * Shows `files` for review and resolves with the files left checked once the user presses
+     * Combine, or `undefined` if the review is cancelled, hidden or replaced by another one.
+     */
+    public static async review(files: ProcessedFile[], summary: ProcessingSummary): Promise<ProcessedFile[] | undefined> {
+        const view = CombineReviewView.current;
+        if (!view) { return files; }
+
+        view._finish(false);
+        view._load(files, summary);
+        await vscode.commands.executeCommand('setContext', 'fileCombine.reviewActive', true);
+        await vscode.commands.executeCommand(`${CombineReviewView.viewId}.focus`);
+        return new Promise(resolve => { view._resolve = resolve; });
+    }
+
+    public getTreeItem(node: ReviewNode): vscode.TreeItem {
+        const isFolder = !node.file && node.children.size > 0;
+        const item = new vscode.TreeItem(node.name, isFolder ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+        item.id = (node.skippedReason ? 'skipped:' : '') + node.path;
+        item.tooltip = node.path;
+
+        if (node.skippedReason) {
+            item.description = node.skippedReason;
+            item.iconPath = new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('disabledForeground'));
+            return item;
+        }
+
+        const files = this._filesUnder(node);
+        const checked = files.filter(file => !this._unchecked.has(file));
+        if (files.length > 0) {
+            item.checkboxState = checked.length > 0 ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked;
+        }
+        if (node.file) {
+            item.description = `${formatFileSize(node.file.size)} · ${node.file.tokens.toLocaleString()} tokens`;
+            item.resourceUri = vscode.Uri.file(node.file.fsPath);
+            item.command = { command: 'vscode.open', title: 'Open File', arguments: [item.resourceUri] };
+        } else if (files.length > 0) {
+            item.description = `${checked.length}/${files.length} files · ${this._sumTokens(checked).toLocaleString()} tokens`;
+        }
+        return item;
+    }
+
+    public getChildren(node?: ReviewNode): ReviewNode[] {
+        const children = Array.from((node ?? this._root).children.values());
+        return children.sort((a, b) => {
+            const aIsFolder = !a.file && !a.skippedReason;
+            const bIsFolder = !b.file && !b.skippedReason;
+            if (aIsFolder === bIsFolder) {
+                return a.name.localeCompare(b.name);
+            }
+            return aIsFolder ? -1 : 1;
+        });
+    }
+
+    public dispose() {
+        this._finish(false);
+        this._treeView.dispose();
+        this._onDidChangeTreeData.dispose();
+        CombineReviewView.current = undefined;
+    }
+
+    private _load(files: ProcessedFile[], summary: ProcessingSummary) {
+        this._files = files;
+        this._unchecked = new Set();
+        this._root = createNode('root', '');
+
+        for (const file of files) {
+            insertNode(this._root, file.path, node => { node.file = file; });
+        }
+        for (const ignored of summary.ignoredFiles) {
+            const rule = summary.matchedRules[ignored.path];
+            const source = vscode.workspace.asRelativePath(rule?.source ?? ignored.reason);
+            insertNode(this._root, ignored.path, node => {
+                node.skippedReason = rule ? `ignored by ${describeRule(rule)} in ./${source}` : `ignored by rules in ./${source}`;
+            });
+        }
+        for (const excluded of summary.excludedFiles) {
+            const rule = summary.matchedRules[excluded];
+            insertNode(this._root, excluded, node => {
+                node.skippedReason = `excluded by ${rule ? `${rule.pattern} in ` : ''}fileCombine.excludePatterns`;
+            });
+        }
+        for (const binary of summary.binaryFiles) {
+            insertNode(this._root, binary, node => { node.skippedReason = 'binary file'; });
+        }
+        for (const generated of summary.generatedFiles) {
+            insertNode(this._root, generated.path, node => { node.skippedReason = `generated file: ${generated.reason}`; });
+        }
+        this._refresh();
+    }
+
+    private _onCheckboxChange(event: vscode.TreeCheckboxChangeEvent<ReviewNode>) {
+        for (const [node, state] of event.items) {
+            for (const file of this._filesUnder(node)) {
+                if (state === vscode.TreeItemCheckboxState.Checked) {
+                    this._unchecked.delete(file);
+                } else {
+                    this._unchecked.add(file);
+                }
+            }
+        }
+        this._refresh();
+    }
+
+    private _filesUnder(node: ReviewNode): ProcessedFile[] {
+        const files: ProcessedFile[] = node.file ? [node.file] : [];
+        for (const child of node.children.values()) {
+            files.push(...this._filesUnder(child));
+        }
+        return files;
+    }
+
+    private _sumTokens(files: ProcessedFile[]): number {
+        return files.reduce((total, file) => total + file.tokens, 0);
+    }
+
+    private _refresh() {
+        const checked = this._files.filter(file => !this._unchecked.has(file));
+        const totalSize = checked.reduce((total, file) => total + file.size, 0);
+        this._treeView.description = this._files.length > 0
+            ? `${checked.length}/${this._files.length} files · ${formatFileSize(totalSize)} · ${this._sumTokens(checked).toLocaleString()} tokens`
+            : undefined;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private _finish(confirmed: boolean) {
+        const resolve = this._resolve;
+        if (!resolve) { return; }
+        this._resolve = undefined;
+        const checked = this._files.filter(file => !this._unchecked.has(file));
+        this._files = [];
+        this._root = createNode('root', '');
+        this._refresh();
+        vscode.commands.executeCommand('setContext', 'fileCombine.reviewActive', false);
+        resolve(confirmed ? checked : undefined);
+    }
+}
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectAndProcessFiles, renderCombinedOutput } from '../combiner';
+import { joinSections } from '../formatters';
+import { createConfigSource, createNodeHost } from '../nodeHost';
+import { CombineHooks, CombineOptions } from '../types';
+
+function createHooks(warnings: string[] = []): CombineHooks {
+    return {
+        isCancelled: () => false,
+        reportProgress: () => undefined,
+        showWarning: message => { warnings.push(message); },
+        showError: message => assert.fail(message),
+        confirm: () => Promise.resolve(true)
+    };
+}
+
+suite('Combining', () => {
+    let workspaceDir: string;
+
+    suiteSetup(() => {
+        workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-combine-combiner-'));
+        fs.writeFileSync(path.join(workspaceDir, 'app.ts'), 'export const app = 1;\n');
+        fs.writeFileSync(path.join(workspaceDir, 'config.env'), 'HOST=localhost\nDB_PASSWORD=hunter22\nPORT=5432\n');
+        fs.writeFileSync(path.join(workspaceDir, 'settings.env'), 'MODE=dev\nAPI_KEY=abcd1234\nDEBUG=true\n');
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(workspaceDir, { recursive: true, force: true });
+    });
+
+    async function combine(settings: { [key: string]: unknown }, options: CombineOptions, hooks = createHooks()) {
+        const host = createNodeHost([workspaceDir], createConfigSource(settings));
+        const collected = await collectAndProcessFiles(host, [workspaceDir], options, hooks);
+        assert.ok(collected);
+        const result = renderCombinedOutput(host, collected, collected.files, options, hooks);
+        assert.ok(result);
+        return { ...result, output: joinSections(result.rendered) };
+    }
+
+    test('prompt templates fall back to markdown and redact the selection', async () => {
+        const warnings: string[] = [];
+        const options: CombineOptions = {
+            outputFormat: 'json',
+            promptTemplate: { text: 'Review this:\n{{selection}}\n\n{{files}}', values: { selection: 'DB_PASSWORD=hunter22' } }
+        };
+        const result = await combine({}, options, createHooks(warnings));
+        assert.strictEqual(result.languageId, 'markdown');
+        assert.strictEqual(warnings.length, 1);
+        assert.match(warnings[0], /markdown is used instead of json/);
+        assert.ok(result.output.startsWith('Review this:\nDB_PASSWORD=[REDACTED:password]'));
+        assert.ok(!result.output.includes('hunter22'));
+        assert.ok(result.summary.redactions.some(redaction => redaction.path === 'selection'));
+    });
+
+    test('redacts numbered files and partial ranges before numbering their lines', async () => {
+        const options: CombineOptions = { partials: new Map([[path.join(workspaceDir, 'settings.env'), [{ startLine: 2, endLine: 2 }]]]) };
+        const result = await combine({ lineNumbers: true }, options);
+        assert.ok(result.output.includes('2 | DB_PASSWORD=[REDACTED:password]\n3 | PORT=5432'));
+        assert.ok(result.output.includes('2 | API_KEY=[REDACTED:password]'));
+        assert.ok(!result.output.includes('hunter22'));
+        assert.ok(!result.output.includes('abcd1234'));
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { applyContentTransform } from '../contentTransforms';
+
+function stripComments(content: string, languageId = 'typescript'): string {
+    return applyContentTransform(content, 'strip-comments', languageId);
+}
+
+suite('Content transforms', () => {
+    test('strip-comments removes line and block comments and the lines they filled', () => {
+        const source = '// header\nconst a = 1; // trailing\n/* block\n   comment */\nconst b = 2;\n\nconst c = /* inline */ 3;';
+        assert.strictEqual(stripComments(source), 'const a = 1;\nconst b = 2;\n\nconst c =  3;');
+    });
+
+    test('strip-comments keeps comment tokens inside strings', () => {
+        const source = 'const url = "https://example.com";\nconst glob = \'src/**/*.ts\';\nconst t = `/* ${x} */`;';
+        assert.strictEqual(stripComments(source), source);
+    });
+
+    test('strip-comments keeps comment tokens inside regex literals', () => {
+        const source = 'const re = /[/*]/g;\nconst lead = /^\\/*/;\nif (/\\/\\//.test(s)) { return s.split(/\\//); }\nconst half = total / 2; // half';
+        assert.strictEqual(stripComments(source), 'const re = /[/*]/g;\nconst lead = /^\\/*/;\nif (/\\/\\//.test(s)) { return s.split(/\\//); }\nconst half = total / 2;');
+    });
+
+    test('strip-comments keeps the rest of the file when a block comment never closes', () => {
+        const source = 'const a = 1; // one\nconst b = a /* two\nconst c = 3;';
+        assert.strictEqual(stripComments(source), 'const a = 1;\nconst b = a /* two\nconst c = 3;');
+    });
+
+    test('strip-comments follows each language\'s comment syntax', () => {
+        assert.strictEqual(stripComments('#!/bin/bash\n# setup\necho "$#" # count', 'bash'), '#!/bin/bash\necho "$#"');
+        assert.strictEqual(stripComments('x = "# not a comment"  # comment', 'python'), 'x = "# not a comment"');
+        assert.strictEqual(stripComments('<!-- note -->\n<p>text</p>', 'html'), '<p>text</p>');
+        assert.strictEqual(stripComments('; comment', 'unknown'), '; comment');
+    });
+
+    test('strip-license removes a leading license comment only', () => {
+        const licensed = '#!/usr/bin/env node\n/*\n * Copyright (c) 2024 Example\n * Licensed under MIT\n */\n\nexport {};';
+        assert.strictEqual(applyContentTransform(licensed, 'strip-license', 'javascript'), '#!/usr/bin/env node\nexport {};');
+        const documented = '/** Parses the input. */\nexport function parse() {}';
+        assert.strictEqual(applyContentTransform(documented, 'strip-license', 'typescript'), documented);
+    });
+
+    test('whitespace transforms trim line ends and collapse blank runs', () => {
+        assert.strictEqual(applyContentTransform('a  \nb\t\n', 'trim-trailing-whitespace', 'text'), 'a\nb\n');
+        assert.strictEqual(applyContentTransform('a\n\n\n\nb\n\nc', 'collapse-blank-lines', 'text'), 'a\n\nb\n\nc');
+    });
+});
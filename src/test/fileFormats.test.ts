@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { convertFileFormat, detectGeneratedFile } from '../fileFormats';
+import { FormatOptions } from '../types';
+
+const OPTIONS: FormatOptions = { renderNotebooks: true, dataSampleRows: 2, jsonShapeThreshold: 10, skipGeneratedFiles: true };
+
+const NOTEBOOK = JSON.stringify({
+    metadata: { kernelspec: { language: 'python' } },
+    cells: [
+        { cell_type: 'markdown', source: ['# Load\n', 'Read the data.'] },
+        { cell_type: 'code', source: 'df = load()\ndf.head()', outputs: [{ output_type: 'display_data', data: { 'image/png': 'iVBORw0KGgo=' } }] }
+    ]
+});
+
+suite('File formats', () => {
+    test('renders notebooks as cells without their outputs', () => {
+        assert.deepStrictEqual(convertFileFormat(NOTEBOOK, 'analysis.ipynb', 'json', OPTIONS), {
+            content: '# %% Cell 1 [markdown]\n# # Load\n# Read the data.\n\n# %% Cell 2\ndf = load()\ndf.head()',
+            language: 'python',
+            conversion: 'notebook',
+            description: '2 cells, 1 output removed'
+        });
+        assert.strictEqual(convertFileFormat(NOTEBOOK, 'analysis.ipynb', 'json', { ...OPTIONS, renderNotebooks: false }), undefined);
+    });
+
+    test('samples CSV rows, keeping quoted newlines inside their record', () => {
+        const csv = 'id,note\n1,"first\nline"\n2,second\n3,third\n4,fourth\n';
+        const converted = convertFileFormat(csv, 'notes.csv', 'csv', OPTIONS);
+        assert.strictEqual(converted?.content, 'id,note\n1,"first\nline"\n2,second\n... [2 more rows omitted]');
+        assert.strictEqual(converted?.description, '2 of 4 rows');
+        assert.strictEqual(convertFileFormat('id\n1\n2\n', 'small.csv', 'csv', OPTIONS), undefined);
+    });
+
+    test('describes large JSON documents by their shape', () => {
+        const json = JSON.stringify({ items: [{ id: 1, tags: ['a'] }, { id: 2 }], total: 2 });
+        const converted = convertFileFormat(json, 'data.json', 'json', OPTIONS);
+        assert.strictEqual(converted?.conversion, 'shape');
+        assert.strictEqual(converted?.content, '{\n  "items": [2 × {\n    "id": number,\n    "tags"?: [1 × string]\n  }],\n  "total": number\n}');
+        assert.strictEqual(convertFileFormat(json, 'data.json', 'json', { ...OPTIONS, jsonShapeThreshold: 0 }), undefined);
+        assert.strictEqual(convertFileFormat('{ not json', 'broken.json', 'json', OPTIONS), undefined);
+    });
+
+    test('detects generated markers near the top of a file only', () => {
+        assert.strictEqual(detectGeneratedFile('// Code generated by protoc. DO NOT EDIT.\npackage api', 'go'), '"DO NOT EDIT" marker');
+        assert.strictEqual(detectGeneratedFile('/** @generated */\nexport {};', 'typescript'), '"@generated" marker');
+        const mention = Array.from({ length: 20 }, () => 'const a = 1;').join('\n') + '\n// Files marked DO NOT EDIT are skipped.';
+        assert.strictEqual(detectGeneratedFile(mention, 'typescript'), undefined);
+    });
+
+    test('detects minified files by their line length', () => {
+        assert.strictEqual(detectGeneratedFile('x'.repeat(3000), 'javascript'), 'minified, 3,000 characters per line');
+        const longLine = Array.from({ length: 500 }, () => 'short();').join('\n') + '\n' + 'y'.repeat(12_000);
+        assert.strictEqual(detectGeneratedFile(longLine, 'javascript'), 'a line of 12,000 characters');
+        assert.strictEqual(detectGeneratedFile('p'.repeat(3000), 'markdown'), undefined);
+    });
+});
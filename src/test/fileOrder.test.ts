@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { compareTreeOrder, createPriorityRules, sortFiles } from '../fileOrder';
+import { ProcessedFile } from '../types';
+
+const ROOT = path.join(path.sep, 'workspace');
+
+function file(relativePath: string, overrides: Partial<ProcessedFile> = {}): ProcessedFile {
+    return {
+        fsPath: path.join(ROOT, ...relativePath.split('/')), path: relativePath, content: '', language: 'typescript', size: 0, tokens: 0,
+        modifiedTime: 0, contentHash: '00000000', isExplicitSelection: false, ...overrides
+    };
+}
+
+function paths(files: ProcessedFile[]): string[] {
+    return files.map(f => f.path);
+}
+
+suite('File order', () => {
+    test('tree order lists folders before files at each level', () => {
+        const sorted = ['README.md', 'src/z.ts', 'src/lib/a.ts', 'docs/guide.md', 'a.ts'].sort(compareTreeOrder);
+        assert.deepStrictEqual(sorted, ['docs/guide.md', 'src/lib/a.ts', 'src/z.ts', 'a.ts', 'README.md']);
+    });
+
+    test('selection order follows the order paths were selected in', () => {
+        const files = [file('src/a.ts'), file('README.md'), file('test/a.test.ts'), file('src/b.ts')];
+        const selection = [path.join(ROOT, 'test'), path.join(ROOT, 'README.md'), path.join(ROOT, 'src')];
+        assert.deepStrictEqual(paths(sortFiles(files, 'selection', selection, [])), ['test/a.test.ts', 'README.md', 'src/a.ts', 'src/b.ts']);
+    });
+
+    test('size and modified orders fall back to tree order on ties', () => {
+        const files = [file('b.ts', { size: 10, modifiedTime: 1 }), file('a.ts', { size: 10, modifiedTime: 3 }), file('c.ts', { size: 5, modifiedTime: 2 })];
+        assert.deepStrictEqual(paths(sortFiles(files, 'size', [], [])), ['c.ts', 'a.ts', 'b.ts']);
+        assert.deepStrictEqual(paths(sortFiles(files, 'modified', [], [])), ['a.ts', 'c.ts', 'b.ts']);
+    });
+
+    test('path order compares whole paths, without putting folders first', () => {
+        const files = [file('src/lib/a.ts'), file('src/index.ts'), file('package.json')];
+        assert.deepStrictEqual(paths(sortFiles(files, 'path', [], [])), ['package.json', 'src/index.ts', 'src/lib/a.ts']);
+    });
+
+    test('priority rules come before the chosen order, in the order they are listed', () => {
+        const files = [file('src/a.ts'), file('src/types.ts'), file('README.md'), file('docs/api.md')];
+        const rules = createPriorityRules(['README.md', '**/types.ts'], [ROOT]);
+        assert.deepStrictEqual(paths(sortFiles(files, 'tree', [], rules)), ['README.md', 'src/types.ts', 'docs/api.md', 'src/a.ts']);
+    });
+
+    test('priority rules only match files under their base directories', () => {
+        const files = [file('api/index.ts'), file('web/index.ts')];
+        const rules = createPriorityRules(['index.ts'], [path.join(ROOT, 'web')]);
+        assert.deepStrictEqual(paths(sortFiles(files, 'tree', [], rules)), ['web/index.ts', 'api/index.ts']);
+    });
+});
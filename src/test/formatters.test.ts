@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { getFormatter, renderDocument } from '../formatters';
+import { parseResponse } from '../responseParser';
+import { CombinedDocument, OutputFormat, ProcessedFile } from '../types';
+
+function file(path: string, content: string, overrides: Partial<ProcessedFile> = {}): ProcessedFile {
+    return {
+        fsPath: `/workspace/${path}`, path, content, language: 'typescript', size: content.length, tokens: 10,
+        modifiedTime: 0, contentHash: '3f2a9c1b', isExplicitSelection: true, ...overrides
+    };
+}
+
+function document(files: ProcessedFile[]): CombinedDocument {
+    return {
+        summary: {
+            totalFiles: files.length, processedFiles: files.length, ignoredFiles: [], excludedFiles: [], matchedRules: {},
+            binaryFiles: [], generatedFiles: [], convertedFiles: [], truncatedFiles: [], droppedFiles: [], redactions: [],
+            outlinedFiles: [], transformSavings: {}, contextSections: [], totalSize: 0, estimatedTokens: 0, tokenizer: 'estimate', timings: {}
+        },
+        files,
+        contextSections: [],
+        treeView: '',
+        ignoredGroups: [],
+        options: {
+            llmInstructions: '', showProcessingSummary: true, showIgnoredFiles: true, fileAnchors: false, showTimings: false,
+            showFileStructure: false, maxTokens: 0, explainIgnoredFiles: false
+        }
+    };
+}
+
+function render(format: OutputFormat, files: ProcessedFile[]): string {
+    return renderDocument(getFormatter(format), document(files));
+}
+
+// Source that would end an XML element or a CDATA section if it were written out as is.
+const XML_LIKE_SOURCE = 'const end = "</file>";\nconst diff = "</diff>";\nconst cdata = "]]>";';
+
+suite('Formatters', () => {
+    test('markdown uses a longer fence than any backtick run in the file', () => {
+        const output = render('markdown', [file('README.md', 'Run:\n```bash\nnpm test\n```', { language: 'markdown' })]);
+        assert.ok(output.includes('## Path: README.md'));
+        assert.ok(output.includes('````markdown\nRun:\n```bash\nnpm test\n```\n````'));
+    });
+
+    test('xml wraps file content and diffs in CDATA so closing tags inside them are kept', () => {
+        const output = render('xml', [file('src/parser.ts', XML_LIKE_SOURCE, { diff: '+const end = "</diff>";' })]);
+        assert.ok(output.includes('<file path="src/parser.ts" language="typescript"'));
+        assert.ok(output.includes('<![CDATA[\nconst end = "</file>";'));
+        assert.ok(output.includes('const cdata = "]]]]><![CDATA[>";\n]]></file>'));
+        assert.ok(output.includes('<diff path="src/parser.ts"><![CDATA[\n+const end = "</diff>";\n]]></diff>'));
+    });
+
+    test('xml wraps the file structure in CDATA so names with markup characters stay well-formed', () => {
+        const doc = document([file('a&b/<x>.ts', 'export {};')]);
+        doc.options.showFileStructure = true;
+        doc.treeView = '└── a&b/\n    └── <x>.ts\n';
+        const output = renderDocument(getFormatter('xml'), doc);
+        assert.ok(output.includes('<file_structure><![CDATA[\n└── a&b/\n    └── <x>.ts\n]]></file_structure>'));
+    });
+
+    test('xml file content reads back unchanged', () => {
+        const edits = parseResponse(render('xml', [file('src/parser.ts', XML_LIKE_SOURCE)]));
+        assert.deepStrictEqual(edits, [{ kind: 'replace', path: 'src/parser.ts', content: XML_LIKE_SOURCE }]);
+    });
+
+    test('json output is a valid document holding each file', () => {
+        const output = render('json', [file('a.ts', 'export const a = "`</file>`";'), file('b.ts', 'export const b = 2;')]);
+        const parsed = JSON.parse(output);
+        assert.deepStrictEqual(parsed.files.map((f: { path: string }) => f.path), ['a.ts', 'b.ts']);
+        assert.strictEqual(parsed.files[0].content, 'export const a = "`</file>`";');
+    });
+
+    test('truncated and redacted files are marked so their content is not applied back', () => {
+        const files = [file('a.ts', 'const a = 1;', { truncated: true }), file('b.ts', 'const b = "[REDACTED:password]";', { redacted: true })];
+        const markdown = render('markdown', files);
+        assert.ok(markdown.includes('## Path: a.ts (12.0 B, 10 tokens, truncated)'));
+        assert.ok(markdown.includes('tokens, redacted)'));
+        const xml = render('xml', files);
+        assert.ok(xml.includes('tokens="10" truncated="true">'));
+        assert.ok(xml.includes('tokens="10" redacted="true">'));
+        for (const output of [markdown, xml]) {
+            assert.deepStrictEqual(parseResponse(output).map(edit => edit.kind), ['unsupported', 'unsupported']);
+        }
+    });
+
+    test('file anchors add the path@hash ID and modification time', () => {
+        const doc = document([file('a.ts', 'export {};')]);
+        doc.options.fileAnchors = true;
+        assert.ok(renderDocument(getFormatter('markdown'), doc).includes('Anchor: `a.ts@3f2a9c1b` · 10 bytes · modified 1970-01-01T00:00:00.000Z'));
+        assert.ok(renderDocument(getFormatter('xml'), doc).includes('id="a.ts@3f2a9c1b" modified="1970-01-01T00:00:00.000Z" hash="3f2a9c1b"'));
+    });
+});
@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { splitDiffByFile } from '../gitDiff';
+
+function fileDiff(header: string[], hunk = ['@@ -1 +1,2 @@', ' 1', '+2']): string {
+    return [...header, ...hunk].join('\n');
+}
+
+suite('Git diff', () => {
+    test('keys each file by the path on its +++ line', () => {
+        const first = fileDiff(['diff --git a/src/a.ts b/src/a.ts', 'index d00491f..1191247 100644', '--- a/src/a.ts', '+++ b/src/a.ts']);
+        const second = fileDiff(['diff --git a/src/b.ts b/src/b.ts', 'index d00491f..1191247 100644', '--- a/src/b.ts', '+++ b/src/b.ts']);
+        assert.deepStrictEqual(Array.from(splitDiffByFile(`${first}\n${second}\n`)), [['src/a.ts', first], ['src/b.ts', second]]);
+    });
+
+    test('reads paths holding spaces and " b/"', () => {
+        const diff = fileDiff(['diff --git a/a/x b/y.ts b/a/x b/y.ts', 'index d00491f..1191247 100644', '--- a/a/x b/y.ts\t', '+++ b/a/x b/y.ts\t']);
+        assert.deepStrictEqual(Array.from(splitDiffByFile(diff).keys()), ['a/x b/y.ts']);
+    });
+
+    test('reads quoted paths', () => {
+        const diff = fileDiff(['diff --git "a/q\\"uote.ts" "b/q\\"uote.ts"', '--- "a/q\\"uote.ts"', '+++ "b/q\\"uote.ts"']);
+        assert.deepStrictEqual(Array.from(splitDiffByFile(diff).keys()), ['q"uote.ts']);
+    });
+
+    test('falls back to the rename target, the deleted path and the diff --git line', () => {
+        const renamed = fileDiff(['diff --git a/old name.ts b/new name.ts', 'similarity index 100%', 'rename from old name.ts', 'rename to new name.ts'], []);
+        const deleted = fileDiff(['diff --git a/gone.ts b/gone.ts', 'deleted file mode 100644', '--- a/gone.ts', '+++ /dev/null'], ['@@ -1 +0,0 @@', '-1']);
+        const modeOnly = fileDiff(['diff --git a/x b/run.sh b/x b/run.sh', 'old mode 100644', 'new mode 100755'], []);
+        assert.deepStrictEqual(Array.from(splitDiffByFile([renamed, deleted, modeOnly].join('\n')).keys()), ['new name.ts', 'gone.ts', 'x b/run.sh']);
+    });
+});
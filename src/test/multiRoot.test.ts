@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectAndProcessFiles, renderCombinedOutput } from '../combiner';
+import { joinSections } from '../formatters';
+import { createConfigSource, createNodeHost } from '../nodeHost';
+import { CombineHooks, CombineHost } from '../types';
+
+const hooks: CombineHooks = {
+    isCancelled: () => false,
+    reportProgress: () => undefined,
+    showWarning: () => undefined,
+    showError: message => assert.fail(message),
+    confirm: () => Promise.resolve(true)
+};
+
+// Two workspace folders with their own ignore files and a file at the same relative path in each.
+const FIXTURE: { [relativePath: string]: string } = {
+    'app/.gitignore': 'secret.txt\n',
+    'app/README.md': '# App\n',
+    'app/secret.txt': 'app secret\n',
+    'app/src/index.ts': 'export const app = 1;\n',
+    'lib/.gitignore': 'generated/\n',
+    'lib/.filecombine': '*.snap\n',
+    'lib/build/bundle.js': 'bundled();\n',
+    'lib/generated/types.ts': 'export type Generated = string;\n',
+    'lib/secret.txt': 'not ignored in lib\n',
+    'lib/src/index.ts': 'export const lib = 2;\n',
+    'lib/src/index.test.snap': 'snapshot\n'
+};
+
+suite('Multi-root workspaces', () => {
+    let workspaceDir: string;
+    let app: string;
+    let lib: string;
+    let host: CombineHost;
+
+    suiteSetup(() => {
+        workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-combine-multi-root-'));
+        for (const [relativePath, content] of Object.entries(FIXTURE)) {
+            const filePath = path.join(workspaceDir, relativePath);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, content);
+        }
+        app = path.join(workspaceDir, 'app');
+        lib = path.join(workspaceDir, 'lib');
+        const config = createConfigSource({ excludePatterns: ['build/**', '.gitignore', '.filecombine'], redactSecrets: false });
+        host = createNodeHost([app, lib], config);
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(workspaceDir, { recursive: true, force: true });
+    });
+
+    test('applies the ignore files of the folder that owns each path', async () => {
+        const collected = await collectAndProcessFiles(host, [app, lib], {}, hooks);
+        assert.ok(collected);
+        assert.deepStrictEqual(collected.files.map(file => file.path), [
+            'app/src/index.ts', 'app/README.md', 'lib/src/index.ts', 'lib/secret.txt'
+        ]);
+        assert.deepStrictEqual(collected.summary.ignoredFiles.map(ignored => ignored.path).sort(), [
+            'app/secret.txt', 'lib/generated/types.ts', 'lib/src/index.test.snap'
+        ]);
+    });
+
+    test('matches exclude patterns relative to the owning folder', async () => {
+        const collected = await collectAndProcessFiles(host, [lib], {}, hooks);
+        assert.ok(collected);
+        assert.deepStrictEqual(collected.summary.excludedFiles.sort(), ['.filecombine', '.gitignore', 'build/bundle.js']);
+    });
+
+    test('does not prefix paths when the selection is inside one folder', async () => {
+        const collected = await collectAndProcessFiles(host, [path.join(lib, 'src')], {}, hooks);
+        assert.ok(collected);
+        assert.deepStrictEqual(collected.files.map(file => file.path), ['src/index.ts']);
+    });
+
+    test('keeps files with the same relative path in different folders apart', async () => {
+        const selection = [path.join(app, 'src', 'index.ts'), path.join(lib, 'src', 'index.ts')];
+        const collected = await collectAndProcessFiles(host, selection, {}, hooks);
+        assert.ok(collected);
+        const result = renderCombinedOutput(host, collected, collected.files, { outputFormat: 'json' }, hooks);
+        assert.ok(result);
+        assert.deepStrictEqual(result.rendered.files.map(section => section.path), ['app/src/index.ts', 'lib/src/index.ts']);
+
+        const tree: string = JSON.parse(joinSections(result.rendered)).fileStructure;
+        assert.match(tree, /app\n.*src\n.*index\.ts/);
+        assert.match(tree, /lib\n.*src\n.*index\.ts/);
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { createOutline } from '../outline';
+
+suite('Outline', () => {
+    test('keeps a Python signature wrapped over several lines, and its docstring', async () => {
+        const source = [
+            'import os',
+            '',
+            'def load(path: str,',
+            '         encoding: str = "utf-8",',
+            '         options: dict = {"mode": ")"}) -> str:',
+            '    """Reads the file at `path`."""',
+            '    with open(path, encoding=encoding) as f:',
+            '        return f.read()'
+        ].join('\n');
+        assert.strictEqual(await createOutline(source, 'io.py', 'python'), [
+            'import os',
+            'def load(path: str,',
+            '         encoding: str = "utf-8",',
+            '         options: dict = {"mode": ")"}) -> str:',
+            '    """Reads the file at `path`."""'
+        ].join('\n'));
+    });
+
+    test('keeps multi-line Python docstrings of classes and methods', async () => {
+        const source = [
+            'class Cart:',
+            '    """A shopping cart.',
+            '',
+            '    Holds items.',
+            '    """',
+            '',
+            '    def total(self):',
+            '        x = """not a docstring"""',
+            '        return x',
+            '',
+            '    def count(self): return 0'
+        ].join('\n');
+        assert.strictEqual(await createOutline(source, 'cart.py', 'python'), [
+            'class Cart:',
+            '    """A shopping cart.',
+            '',
+            '    Holds items.',
+            '    """',
+            '    def total(self):',
+            '    def count(self): return 0'
+        ].join('\n'));
+    });
+
+    test('reduces TypeScript to signatures with their doc comments', async () => {
+        const source = '/** Adds two numbers. */\nexport function add(a: number, b: number): number {\n    return a + b;\n}\nadd(1, 2);';
+        assert.strictEqual(await createOutline(source, 'math.ts', 'typescript'), '/** Adds two numbers. */\nexport function add(a: number, b: number): number { ... }');
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { extractLineRanges, findTypeScriptSymbol, formatPartialSpec, groupPartialSelections, numberLines, parsePartialSpec } from '../partialRanges';
+
+// Ten lines, `line 1` to `line 10`, with a final newline.
+const TEN_LINES = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+const CART_SOURCE = [
+    'import { Item } from "./item";',
+    '',
+    '/** A shopping cart. */',
+    'export class Cart {',
+    '    private items: Item[] = [];',
+    '',
+    '    /** Sum of the item prices. */',
+    '    total(): number {',
+    '        return this.items.reduce((sum, item) => sum + item.price, 0);',
+    '    }',
+    '}',
+    '',
+    'export const EMPTY = new Cart();'
+].join('\n');
+
+suite('Partial ranges', () => {
+    test('parses line ranges, single lines and symbols', () => {
+        assert.deepStrictEqual(parsePartialSpec('src/big.ts#L120-300'), { path: 'src/big.ts', selection: { startLine: 120, endLine: 300 } });
+        assert.deepStrictEqual(parsePartialSpec('src/big.ts#L300-L120'), { path: 'src/big.ts', selection: { startLine: 120, endLine: 300 } });
+        assert.deepStrictEqual(parsePartialSpec('src/big.ts#L42'), { path: 'src/big.ts', selection: { startLine: 42, endLine: 42 } });
+        assert.deepStrictEqual(parsePartialSpec('src/cart.ts::Cart.total'), { path: 'src/cart.ts', selection: { symbol: 'Cart.total' } });
+        assert.deepStrictEqual(parsePartialSpec('src/cart.ts'), { path: 'src/cart.ts' });
+    });
+
+    test('formats a selection back into the spec it was parsed from', () => {
+        for (const spec of ['src/big.ts#L120-300', 'src/big.ts#L42', 'src/cart.ts::Cart.total', 'src/cart.ts']) {
+            const { path, selection } = parsePartialSpec(spec);
+            assert.strictEqual(formatPartialSpec(path, selection), spec);
+        }
+    });
+
+    test('numbers lines right-aligned without numbering a final newline', () => {
+        assert.strictEqual(numberLines('a\nb\n', 9), ' 9 | a\n10 | b');
+        assert.strictEqual(numberLines('a', 1, 3), '  1 | a');
+    });
+
+    test('keeps only the selected lines with elision markers between them', () => {
+        const result = extractLineRanges(TEN_LINES, [{ startLine: 2, endLine: 3 }, { startLine: 10, endLine: 10 }]);
+        assert.deepStrictEqual(result, {
+            content: '... [line 1 omitted]\n 2 | line 2\n 3 | line 3\n... [lines 4-9 omitted]\n10 | line 10',
+            ranges: [{ startLine: 2, endLine: 3 }, { startLine: 10, endLine: 10 }]
+        });
+    });
+
+    test('merges overlapping and adjacent ranges and clamps them to the file', () => {
+        const result = extractLineRanges(TEN_LINES, [{ startLine: 8, endLine: 40 }, { startLine: 4, endLine: 6 }, { startLine: 5, endLine: 7 }]);
+        assert.deepStrictEqual(result?.ranges, [{ startLine: 4, endLine: 10 }]);
+        assert.ok(result?.content.startsWith('... [lines 1-3 omitted]\n 4 | line 4'));
+        assert.strictEqual(extractLineRanges(TEN_LINES, [{ startLine: 20, endLine: 30 }]), undefined);
+    });
+
+    test('finds TypeScript declarations and members with their doc comments', async () => {
+        assert.deepStrictEqual(await findTypeScriptSymbol(CART_SOURCE, 'cart.ts', 'typescript', 'Cart'), { startLine: 3, endLine: 11 });
+        assert.deepStrictEqual(await findTypeScriptSymbol(CART_SOURCE, 'cart.ts', 'typescript', 'Cart.total'), { startLine: 7, endLine: 10 });
+        assert.deepStrictEqual(await findTypeScriptSymbol(CART_SOURCE, 'cart.ts', 'typescript', 'EMPTY'), { startLine: 13, endLine: 13 });
+        assert.strictEqual(await findTypeScriptSymbol(CART_SOURCE, 'cart.ts', 'typescript', 'Cart.missing'), undefined);
+        assert.strictEqual(await findTypeScriptSymbol(CART_SOURCE, 'cart.py', 'python', 'Cart'), undefined);
+    });
+
+    test('a file listed whole as well as in part is included whole', () => {
+        const { paths, partials } = groupPartialSelections([
+            { fsPath: '/w/a.ts', selection: { startLine: 1, endLine: 5 } },
+            { fsPath: '/w/b.ts', selection: { symbol: 'B' } },
+            { fsPath: '/w/a.ts' },
+            { fsPath: '/w/b.ts', selection: { startLine: 9, endLine: 9 } }
+        ]);
+        assert.deepStrictEqual(paths, ['/w/a.ts', '/w/b.ts']);
+        assert.deepStrictEqual(Array.from(partials.entries()), [['/w/b.ts', [{ symbol: 'B' }, { startLine: 9, endLine: 9 }]]]);
+    });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { applyUnifiedDiff, parseResponse } from '../responseParser';
+import { ResponseEdit } from '../types';
+
+function markdownFile(heading: string, content: string, language = 'typescript'): string {
+    return `## Path: ${heading}\n\n\`\`\`${language}\n${content}\n\`\`\`\n`;
+}
+
+function reasonFor(edits: ResponseEdit[]): string | undefined {
+    const [edit] = edits;
+    return edit?.kind === 'unsupported' ? edit.reason : undefined;
+}
+
+const CART = ['export class Cart {', '    items = [];', '', '    total() {', '        return 0;', '    }', '}'].join('\n');
+
+suite('Response parser', () => {
+    test('reads full files from markdown headings and XML elements', () => {
+        const response = `Here you go:\n\n${markdownFile('src/a.ts (1 KB, 10 tokens)', 'export const a = 2;')}\n<file path="src/b.ts" language="typescript">\nexport const b = 3;\n</file>`;
+        assert.deepStrictEqual(parseResponse(response), [
+            { kind: 'replace', path: 'src/a.ts', content: 'export const a = 2;' },
+            { kind: 'replace', path: 'src/b.ts', content: 'export const b = 3;' }
+        ]);
+    });
+
+    test('removes line number prefixes', () => {
+        const edits = parseResponse(markdownFile('src/a.ts', '1 | const a = 1;\n2 |\n3 | export { a };'));
+        assert.deepStrictEqual(edits, [{ kind: 'replace', path: 'src/a.ts', content: 'const a = 1;\n\nexport { a };' }]);
+    });
+
+    test('reads unified diffs, in a diff block or on their own', () => {
+        const diff = '--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,2 +1,2 @@\n const a = 1;\n-const b = 2;\n+const b = 3;';
+        const expected: ResponseEdit[] = [{ kind: 'diff', path: 'src/a.ts', hunks: [{ oldStart: 1, oldLines: ['const a = 1;', 'const b = 2;'], newLines: ['const a = 1;', 'const b = 3;'] }] }];
+        assert.deepStrictEqual(parseResponse(diff), expected);
+        assert.deepStrictEqual(parseResponse('```diff\n' + diff + '\n```'), expected);
+        assert.deepStrictEqual(parseResponse('--- a/src/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-gone'), [{ kind: 'delete', path: 'src/old.ts' }]);
+    });
+
+    test('full content wins over a diff for the same file', () => {
+        const response = `${markdownFile('src/a.ts', 'export const a = 2;')}\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-x\n+y`;
+        assert.deepStrictEqual(parseResponse(response), [{ kind: 'replace', path: 'src/a.ts', content: 'export const a = 2;' }]);
+    });
+
+    test('refuses outlines, converted files and parts of files', () => {
+        assert.strictEqual(reasonFor(parseResponse(markdownFile('src/a.ts (1 KB, 10 tokens, outline)', 'export function a() { ... }'))), 'it is an outline of the file');
+        assert.strictEqual(reasonFor(parseResponse('<file path="data.csv" converted="sample">\na,b\n</file>')), 'it is a converted view of the file');
+        assert.strictEqual(reasonFor(parseResponse(markdownFile('src/a.ts', '... [lines 1-9 omitted]\n10 | const a = 1;'))), 'it shows only part of the file');
+    });
+
+    test('refuses files truncated to fit the token budget', () => {
+        const truncated = 'const a = 1;\n... [truncated 120 lines]';
+        assert.strictEqual(reasonFor(parseResponse(markdownFile('src/a.ts', truncated))), 'it was truncated to fit the token budget');
+        assert.strictEqual(reasonFor(parseResponse(markdownFile('src/a.ts (1 KB, 10 tokens, truncated)', 'const a = 1;'))), 'it was truncated to fit the token budget');
+        assert.strictEqual(reasonFor(parseResponse('<file path="src/a.ts" truncated="true">\nconst a = 1;\n</file>')), 'it was truncated to fit the token budget');
+    });
+
+    test('refuses content and diffs holding redacted secrets', () => {
+        const redacted = 'const password = "[REDACTED:password]";';
+        assert.strictEqual(reasonFor(parseResponse(markdownFile('src/db.ts', redacted))), 'it contains redacted secrets');
+        assert.strictEqual(reasonFor(parseResponse(markdownFile('src/db.ts (1 KB, 10 tokens, redacted)', 'const a = 1;'))), 'it contains redacted secrets');
+        assert.strictEqual(reasonFor(parseResponse('<file path="src/db.ts" redacted="true">\nconst a = 1;\n</file>')), 'it contains redacted secrets');
+        assert.strictEqual(reasonFor(parseResponse(`--- a/src/db.ts\n+++ b/src/db.ts\n@@ -1 +1 @@\n-const a = 1;\n+${redacted}`)), 'it contains redacted secrets');
+    });
+
+    test('applies hunks at their line numbers', () => {
+        const result = applyUnifiedDiff(CART, [{ oldStart: 5, oldLines: ['        return 0;'], newLines: ['        return this.items.length;'] }]);
+        assert.strictEqual(result, CART.replace('return 0;', 'return this.items.length;'));
+    });
+
+    test('finds hunks whose line numbers are off', () => {
+        const result = applyUnifiedDiff(CART, [
+            { oldStart: 1, oldLines: ['    items = [];'], newLines: ['    items: string[] = [];'] },
+            { oldStart: 2, oldLines: ['    total() {'], newLines: ['    count() {'] }
+        ]);
+        assert.strictEqual(result, CART.replace('items = [];', 'items: string[] = [];').replace('total()', 'count()'));
+    });
+
+    test('inserts hunks without old lines after the given line', () => {
+        const result = applyUnifiedDiff('a\nb', [{ oldStart: 1, oldLines: [], newLines: ['inserted'] }]);
+        assert.strictEqual(result, 'a\ninserted\nb');
+    });
+
+    test('fails when a hunk no longer matches the file', () => {
+        assert.strictEqual(applyUnifiedDiff(CART, [{ oldStart: 2, oldLines: ['    items = new Set();'], newLines: [] }]), undefined);
+    });
+});
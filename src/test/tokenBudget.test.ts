@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { applyTokenBudget, truncationMarker } from '../tokenBudget';
+import { Tokenizer } from '../tokenizer';
+import { ProcessedFile } from '../types';
+
+// One token per character keeps the budgets easy to work out.
+const characterTokenizer: Tokenizer = { name: 'characters', countTokens: text => text.length };
+
+function file(path: string, content: string, overrides: Partial<ProcessedFile> = {}): ProcessedFile {
+    return {
+        fsPath: `/workspace/${path}`, path, content, language: 'text', size: content.length, tokens: content.length,
+        modifiedTime: 0, contentHash: '00000000', isExplicitSelection: false, ...overrides
+    };
+}
+
+suite('Token budget', () => {
+    test('includes every file that fits, in the original order', () => {
+        const files = [file('b/deep.ts', 'x'.repeat(100)), file('a.ts', 'y'.repeat(100))];
+        const result = applyTokenBudget(files, 1000, characterTokenizer);
+        assert.deepStrictEqual(result.included.map(f => f.path), ['b/deep.ts', 'a.ts']);
+        assert.deepStrictEqual(result.truncated, []);
+        assert.deepStrictEqual(result.dropped, []);
+    });
+
+    test('keeps explicitly selected files before shallower ones', () => {
+        const files = [file('a.ts', 'x'.repeat(600)), file('src/picked.ts', 'y'.repeat(600), { isExplicitSelection: true })];
+        const result = applyTokenBudget(files, 700, characterTokenizer);
+        assert.deepStrictEqual(result.included.map(f => f.path), ['src/picked.ts']);
+        assert.deepStrictEqual(result.dropped, ['a.ts']);
+    });
+
+    test('truncates a file to the remaining budget with a marker', () => {
+        const content = Array.from({ length: 100 }, (_, i) => `line ${String(i).padStart(3, '0')}`).join('\n');
+        const result = applyTokenBudget([file('big.ts', content)], 300, characterTokenizer);
+        assert.strictEqual(result.included.length, 1);
+        const [{ omittedLines }] = result.truncated;
+        assert.ok(omittedLines > 0 && omittedLines < 100);
+        assert.ok(result.included[0].content.endsWith(truncationMarker(omittedLines)));
+        assert.strictEqual(result.included[0].truncated, true);
+        assert.ok(result.included[0].tokens <= 300);
+    });
+
+    test('drops a file when too little budget is left to truncate it', () => {
+        const result = applyTokenBudget([file('a.ts', 'x'.repeat(150)), file('b.ts', 'y'.repeat(500))], 250, characterTokenizer);
+        assert.deepStrictEqual(result.included.map(f => f.path), ['a.ts']);
+        assert.deepStrictEqual(result.dropped, ['b.ts']);
+    });
+});
@@ -0,0 +1,84 @@
+// src/tokenBudget.ts
+
+import { ProcessedFile } from './types';
+import { Tokenizer } from './tokenizer';
+
+// Below this many remaining tokens a truncated file would be too short to be useful, so it is dropped instead.
+const MIN_TRUNCATED_TOKENS = 200;
+
+export interface BudgetResult {
+    included: ProcessedFile[];
+    truncated: { path: string; omittedLines: number }[];
+    dropped: string[];
+}
+
+// Explicitly selected files first, then shallower paths, then the most recently modified, then the smallest.
+function compareFilePriority(a: ProcessedFile, b: ProcessedFile): number {
+    if (a.isExplicitSelection !== b.isExplicitSelection) {
+        return a.isExplicitSelection ? -1 : 1;
+    }
+    const depthA = a.path.split('/').length;
+    const depthB = b.path.split('/').length;
+    if (depthA !== depthB) {
+        return depthA - depthB;
+    }
+    if (a.modifiedTime !== b.modifiedTime) {
+        return b.modifiedTime - a.modifiedTime;
+    }
+    return a.size - b.size;
+}
+
+export function truncationMarker(omittedLines: number): string {
+    return `... [truncated ${omittedLines} lines]`;
+}
+
+function truncateToFit(file: ProcessedFile, maxTokens: number, tokenizer: Tokenizer): { file: ProcessedFile; omittedLines: number } | null {
+    const lines = file.content.split('\n');
+    let available = maxTokens - tokenizer.countTokens(truncationMarker(lines.length));
+    let keptLines = 0;
+
+    while (keptLines < lines.length) {
+        const lineTokens = tokenizer.countTokens(lines[keptLines] + '\n');
+        if (lineTokens > available) { break; }
+        available -= lineTokens;
+        keptLines++;
+    }
+
+    if (keptLines === 0) { return null; }
+
+    const omittedLines = lines.length - keptLines;
+    const content = lines.slice(0, keptLines).join('\n') + '\n' + truncationMarker(omittedLines);
+    return {
+        file: { ...file, content, tokens: tokenizer.countTokens(content), truncated: true },
+        omittedLines
+    };
+}
+
+/**
+ * Picks the files that fit in `maxTokens`, in priority order. A file that does not fit whole is truncated
+ * to the remaining budget when enough is left, otherwise it is dropped. Included files keep their original order.
+ */
+export function applyTokenBudget(files: ProcessedFile[], maxTokens: number, tokenizer: Tokenizer): BudgetResult {
+    const result: BudgetResult = { included: [], truncated: [], dropped: [] };
+    const selected = new Map<ProcessedFile, ProcessedFile>();
+    let remaining = maxTokens;
+
+    for (const file of [...files].sort(compareFilePriority)) {
+        if (file.tokens <= remaining) {
+            selected.set(file, file);
+            remaining -= file.tokens;
+            continue;
+        }
+        const truncated = remaining >= MIN_TRUNCATED_TOKENS ? truncateToFit(file, remaining, tokenizer) : null;
+        if (truncated) {
+            selected.set(file, truncated.file);
+            result.truncated.push({ path: file.path, omittedLines: truncated.omittedLines });
+            remaining = Math.max(0, remaining - truncated.file.tokens);
+        } else {
+            result.dropped.push(file.path);
+        }
+    }
+
+    result.included = files.filter(file => selected.has(file)).map(file => selected.get(file)!);
+    return result;
+}
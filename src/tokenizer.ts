@@ -0,0 +1,61 @@
+// src/tokenizer.ts
+
+import type { TiktokenBPE } from 'js-tiktoken/lite' with { 'resolution-mode': 'import' };
+import { debugLog } from './utils';
+
+export interface Tokenizer {
+    name: string;
+    countTokens(text: string): number;
+}
+
+type TokenizerLoader = () => Promise<Tokenizer>;
+
+export const DEFAULT_TOKENIZER = 'o200k_base';
+
+// The old heuristic, kept as a fast fallback and for anyone who prefers speed over accuracy.
+const estimateTokenizer: Tokenizer = {
+    name: 'estimate',
+    countTokens: (text: string) => Math.ceil(text.length / 4)
+};
+
+// The BPE tables ship inside js-tiktoken and are bundled by esbuild, so no network access is needed.
+// They are large, so each one is only imported the first time it is asked for.
+async function loadTiktoken(name: string, ranksPromise: Promise<{ default: TiktokenBPE }>): Promise<Tokenizer> {
+    const [{ Tiktoken }, ranks] = await Promise.all([import('js-tiktoken/lite'), ranksPromise]);
+    const encoder = new Tiktoken(ranks.default);
+    return {
+        name,
+        // Special tokens such as <|endoftext|> are counted as plain text rather than rejected.
+        countTokens: (text: string) => encoder.encode(text, [], []).length
+    };
+}
+
+const tokenizerLoaders = new Map<string, TokenizerLoader>([
+    ['estimate', async () => estimateTokenizer],
+    ['cl100k_base', () => loadTiktoken('cl100k_base', import('js-tiktoken/ranks/cl100k_base'))],
+    ['o200k_base', () => loadTiktoken('o200k_base', import('js-tiktoken/ranks/o200k_base'))]
+]);
+
+const tokenizerCache = new Map<string, Promise<Tokenizer>>();
+
+export function registerTokenizer(name: string, loader: TokenizerLoader) {
+    tokenizerLoaders.set(name, loader);
+    tokenizerCache.delete(name);
+}
+
+export function getTokenizer(name: string = DEFAULT_TOKENIZER): Promise<Tokenizer> {
+    let cached = tokenizerCache.get(name);
+    if (!cached) {
+        const loader = tokenizerLoaders.get(name);
+        if (!loader) {
+            debugLog(`Unknown tokenizer "${name}", falling back to estimate`);
+            return Promise.resolve(estimateTokenizer);
+        }
+        cached = loader().catch(error => {
+            debugLog(`Failed to load tokenizer "${name}", falling back to estimate:`, error);
+            return estimateTokenizer;
+        });
+        tokenizerCache.set(name, cached);
+    }
+    return cached;
+}
@@ -3,7 +3,7 @@
 import { TreeNode } from './types';
 import { debugLog } from './utils';
 
-export function createTreeStructure(paths: string[]): TreeNode {
+export function createTreeStructure(paths: string[], labels: Map<string, string> = new Map()): TreeNode {
     debugLog('Creating tree structure for paths:', paths);
     const root: TreeNode = { name: 'root', children: {}, isFile: false };
 
@@ -24,6 +24,7 @@ export function createTreeStructure(paths: string[]): TreeNode {
             }
             currentNode = currentNode.children[part];
         }
+        currentNode.label = labels.get(filePath);
     }
     return root;
 }
@@ -34,7 +35,7 @@ export function generateTreeView(node: TreeNode, prefix: string = '', isLast = t
     if (node.name !== 'root') {
         result += prefix;
         result += isLast ? '└── ' : '├── ';
-        result += node.name + '\n';
+        result += node.name + (node.label ? ` (${node.label})` : '') + '\n';
     }
 
     const childrenKeys = Object.keys(node.children);
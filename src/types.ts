@@ -1,25 +1,295 @@
 // src/types.ts
 
-import * as vscode from 'vscode';
-
 export interface ProcessingSummary {
     totalFiles: number;
     processedFiles: number;
     ignoredFiles: { path: string; reason: string }[];
     excludedFiles: string[];
+    // The rule that left out each path in `ignoredFiles` and `excludedFiles`.
+    matchedRules: { [path: string]: MatchedRule };
     binaryFiles: string[];
+    // Minified or generated files left out, with what gave them away.
+    generatedFiles: { path: string; reason: string }[];
+    truncatedFiles: { path: string; omittedLines: number }[];
+    droppedFiles: string[];
+    redactions: { path: string; counts: { [type: string]: number } }[];
+    // Files reduced to an outline, with token counts before and after.
+    outlinedFiles: { path: string; fullTokens: number; outlineTokens: number }[];
+    // Notebooks and data files converted to a readable or shorter form, described as e.g. `20 of 15,234 rows`.
+    convertedFiles: { path: string; conversion: FormatConversion; description: string }[];
+    // Tokens removed by each content transform across all files.
+    transformSavings: { [transform: string]: number };
+    // Tokens of each context section, in output order. They count towards `estimatedTokens`.
+    contextSections: { kind: ContextSectionKind; title: string; tokens: number }[];
     totalSize: number;
     estimatedTokens: number;
+    tokenizer: string;
     timings: { [key: string]: number };
 }
 
+// An ignore rule that matched a path, as reported by `ignore`'s test API.
+export interface MatchedRule {
+    // The `.gitignore` or `.filecombine` file holding the rule, or `fileCombine.excludePatterns`.
+    source: string;
+    pattern: string;
+    // 1-based line in `source`; unset for settings patterns.
+    line?: number;
+    // Set for a `!pattern` that re-included the path.
+    negative: boolean;
+}
+
+// Why a path is or isn't collected, for the Explain Path command.
+export interface PathExplanation {
+    path: string;
+    included: boolean;
+    // The rules that matched, in the order they were checked. When the path is left out, the last one decided it.
+    rules: MatchedRule[];
+}
+
+export interface ProcessedFile {
+    fsPath: string;
+    path: string;
+    content: string;
+    language: string;
+    size: number;
+    tokens: number;
+    modifiedTime: number;
+    // Short hash of the file's bytes on disk, identifying the version that was combined.
+    contentHash: string;
+    isExplicitSelection: boolean;
+    diff?: string;
+    // Set when `content` is an outline of the file rather than its full text.
+    outline?: boolean;
+    // Set for files pulled in by "Combine with Dependencies" rather than selected.
+    isDependency?: boolean;
+    // Set when `content` holds only these parts of the file, numbered, with the rest elided.
+    lineRanges?: LineRange[];
+    // Set when each line of `content` starts with its line number in the file.
+    numbered?: boolean;
+    // Set when `content` is a converted form of the file, such as a notebook's cells or a sample of a CSV file.
+    conversion?: FormatConversion;
+    // Set when `content` was cut short, ending in a truncation marker, to fit `maxTokens`.
+    truncated?: boolean;
+    // Set when secrets in `content` were replaced with `[REDACTED:type]`.
+    redacted?: boolean;
+}
+
+// How a notebook or data file was converted: cells with outputs removed, a sample of rows, or the shape of a JSON document.
+export type FormatConversion = 'notebook' | 'sample' | 'shape';
+
+export interface FormatOptions {
+    renderNotebooks: boolean;
+    // Rows of a CSV or TSV file kept before it is cut short; 0 keeps every row.
+    dataSampleRows: number;
+    // JSON files larger than this many bytes are replaced by their shape; 0 never does.
+    jsonShapeThreshold: number;
+    skipGeneratedFiles: boolean;
+}
+
+// 1-based and inclusive.
+export interface LineRange {
+    startLine: number;
+    endLine: number;
+}
+
+// A part of a file to include instead of all of it: a line range, or a symbol such as `ClassName` or `ClassName.method`.
+export type PartialSelection = LineRange | { symbol: string };
+
+export type OutputFormat = 'markdown' | 'xml' | 'json';
+
+export type FileOrder = 'tree' | 'selection' | 'path' | 'size' | 'modified';
+
+export interface OutputOptions {
+    llmInstructions: string;
+    showProcessingSummary: boolean;
+    showIgnoredFiles: boolean;
+    // Adds an `path@hash` anchor, modification time and content hash to each file section.
+    fileAnchors: boolean;
+    showTimings: boolean;
+    showFileStructure: boolean;
+    maxTokens: number;
+    // List the matching rule next to each ignored or excluded file.
+    explainIgnoredFiles: boolean;
+}
+
+export type ContextSectionKind = 'diagnostics' | 'selection' | 'terminal' | 'file';
+
+// Text from the editor that goes with the files, such as diagnostics or the output of a failing test run.
+export interface ContextSection {
+    kind: ContextSectionKind;
+    title: string;
+    // The code fence language of `content`.
+    language: string;
+    content: string;
+}
+
+export interface CombinedDocument {
+    summary: ProcessingSummary;
+    files: ProcessedFile[];
+    contextSections: ContextSection[];
+    treeView: string;
+    ignoredGroups: { source: string; paths: string[] }[];
+    tokenBudget?: { model: string; limit: number; exceeded: boolean };
+    options: OutputOptions;
+}
+
+export type GitDiffMode = 'contents' | 'diff' | 'both';
+
+export interface RenderedFileSection {
+    path: string;
+    fsPath: string;
+    size: number;
+    tokens: number;
+    contentHash: string;
+    numbered: boolean;
+    text: string;
+}
+
+// A rendered document kept in pieces, so individual file sections can be copied or removed after rendering.
+export interface RenderedDocument {
+    header: string;
+    files: RenderedFileSection[];
+    separator: string;
+    footer: string;
+}
+
+export interface CombineOptions {
+    outputFormat?: OutputFormat;
+    excludePatterns?: string[];
+    llmInstructions?: string;
+    // Unified diffs keyed by file system path, rendered according to `diffMode`.
+    diffs?: Map<string, string>;
+    diffMode?: GitDiffMode;
+    // Overrides `fileCombine.reviewBeforeCombine` for this run.
+    review?: boolean;
+    // Outline every file in this run, not just those matching `fileCombine.outlinePatterns`.
+    outline?: boolean;
+    // Also combine the files the selected files import, up to `fileCombine.dependencyDepth` levels deep.
+    includeDependencies?: boolean;
+    // Files never collected, such as the export target of the run itself.
+    skipPaths?: string[];
+    // Processed files kept between runs, so only files that changed since are read again.
+    fileCache?: Map<string, CachedProcessedFile>;
+    // Lays out the whole document instead of the format's own header and footer.
+    promptTemplate?: PromptTemplate;
+    // Rendered after the files, in this order.
+    contextSections?: ContextSection[];
+    // Override `fileCombine.includeDiagnostics` and `fileCombine.includeSelection` for this run.
+    includeDiagnostics?: boolean;
+    includeSelection?: boolean;
+    // Parts of files to include instead of the whole file, keyed by file system path.
+    partials?: Map<string, PartialSelection[]>;
+}
+
+// A prompt template's text, with values for the placeholders the editor fills in (`gitBranch`, `selection`, `input:...`).
+export interface PromptTemplate {
+    text: string;
+    values: { [placeholder: string]: string };
+}
+
+// A processed file kept for reuse, keyed by its path, with what it added to the processing summary.
+export interface CachedProcessedFile {
+    size: number;
+    mtime: number;
+    // Explicitly selected files skip generated-file detection, so the result only holds for the same kind of selection.
+    isExplicitSelection: boolean;
+    file: ProcessedFile | null;
+    summary: ProcessingSummary;
+}
+
+export interface CombineProfile {
+    paths: string[];
+    excludePatterns?: string[];
+    llmInstructions?: string;
+    outputFormat?: OutputFormat;
+}
+
+export type ContentTransform = 'strip-license' | 'strip-comments' | 'trim-trailing-whitespace' | 'collapse-blank-lines';
+
+// An `@transform pattern...` line in a `.filecombine` file.
+export interface ContentDirective {
+    transform: ContentTransform;
+    patterns: string[];
+}
+
+// A pattern line from an ignore file; `line` is 1-based.
+export interface IgnorePattern {
+    pattern: string;
+    line: number;
+}
+
 export interface IgnoreFileEntry {
     filePath: string;
-    patterns: string[];
+    patterns: IgnorePattern[];
+    directives: ContentDirective[];
+    // Patterns from `@priority` lines, in the order they appear.
+    priority: string[];
+    // `path#L120-300` and `path::Symbol` entries from `@only` lines, relative to the file's directory.
+    partials: string[];
+}
+
+export interface HostFileStat {
+    type: 'file' | 'directory' | 'other';
+    size: number;
+    mtime: number;
+}
+
+// File system access used by the combine pipeline, so it can run inside VS Code or from the CLI.
+export interface HostFileSystem {
+    // Resolves to undefined when the path does not exist.
+    stat(fsPath: string): Promise<HostFileStat | undefined>;
+    readFile(fsPath: string): Promise<Uint8Array>;
+    readDirectory(fsPath: string): Promise<string[]>;
+}
+
+// Reads `fileCombine.*` settings by their short key, e.g. `excludePatterns`.
+export interface ConfigSource {
+    get<T>(key: string, defaultValue: T): T;
+}
+
+export interface CombineHost {
+    fs: HostFileSystem;
+    config: ConfigSource;
+    workspaceRoots: string[];
+    // The workspace folder containing `fsPath`, if any.
+    workspaceRootFor(fsPath: string): string | undefined;
+    workspaceFolderName(root: string): string;
+    // Path relative to the workspace folder containing it, as matched by settings patterns.
+    // Paths outside the workspace are returned unchanged.
+    relativePath(fsPath: string): string;
+    // The lines of a symbol such as `ClassName.method`, from the editor's symbol providers. Without
+    // it, or when it finds nothing, TypeScript and JavaScript symbols are found by parsing the file.
+    findSymbol?(fsPath: string, symbol: string): Promise<LineRange | undefined>;
+}
+
+export interface CombineHooks {
+    isCancelled(): boolean;
+    // `increment` is the share of the total work just completed, in percent.
+    reportProgress(message: string, increment?: number): void;
+    showWarning(message: string): void;
+    showError(message: string): void;
+    // Asks before continuing past `fileCombine.maxFiles` or `fileCombine.maxTotalSizeMB`.
+    confirm(message: string): Promise<boolean>;
 }
 
 export interface TreeNode {
     name: string;
     children: { [key: string]: TreeNode };
     isFile: boolean;
-}
\ No newline at end of file
+    // Shown in parentheses after the file name, e.g. "dependency".
+    label?: string;
+}
+
+// One hunk of a unified diff. `oldLines` holds the context and removed lines, `newLines` the context and added lines.
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: string[];
+    newLines: string[];
+}
+
+// A change to one file found in a pasted response, by workspace-relative or absolute path.
+export type ResponseEdit =
+    | { kind: 'replace'; path: string; content: string }
+    | { kind: 'diff'; path: string; hunks: DiffHunk[] }
+    | { kind: 'delete'; path: string }
+    | { kind: 'unsupported'; path: string; reason: string };
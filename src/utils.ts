@@ -1,5 +1,7 @@
 // src/utils.ts
 
+import { createHash } from 'crypto';
+
 // Enhanced Debug logger with timestamps
 export function debugLog(message: string, ...args: any[]) {
     const timestamp = new Date().toISOString();
@@ -24,4 +26,23 @@ export function getNonce() {
         text += possible.charAt(Math.floor(Math.random() * possible.length));
     }
     return text;
-}
\ No newline at end of file
+}
+
+// Runs `fn` over `items` with at most `limit` calls in flight. Results keep the order of `items`.
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+// The first 8 hex digits of the SHA-256 of a file's bytes: enough to tell versions of one file apart.
+export function shortContentHash(content: Uint8Array): string {
+    return createHash('sha256').update(content).digest('hex').slice(0, 8);
+}
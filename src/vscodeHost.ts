@@ -0,0 +1,68 @@
+// src/vscodeHost.ts
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CombineHost, HostFileStat, LineRange } from './types';
+import { debugLog } from './utils';
+
+function toHostFileType(type: vscode.FileType): HostFileStat['type'] {
+    if (type & vscode.FileType.Directory) { return 'directory'; }
+    if (type & vscode.FileType.File) { return 'file'; }
+    return 'other';
+}
+
+/**
+ * Finds a symbol such as `ClassName.method` with the document symbol providers of the file's
+ * language, descending one name per level of the dotted path.
+ */
+async function findDocumentSymbol(fsPath: string, symbol: string): Promise<LineRange | undefined> {
+    let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+    try {
+        symbols = await vscode.commands.executeCommand('vscode.executeDocumentSymbolProvider', vscode.Uri.file(fsPath));
+    } catch (error) {
+        debugLog(`Error getting document symbols for ${fsPath}:`, error);
+        return undefined;
+    }
+    let candidates = (symbols ?? []).filter((candidate): candidate is vscode.DocumentSymbol => 'children' in candidate);
+    let found: vscode.DocumentSymbol | undefined;
+    for (const name of symbol.split('.')) {
+        // Some providers add the signature to the name, as in `method(a, b)`.
+        found = candidates.find(candidate => candidate.name === name || candidate.name.replace(/\(.*$/, '') === name);
+        if (!found) { return undefined; }
+        candidates = found.children;
+    }
+    return found ? { startLine: found.range.start.line + 1, endLine: found.range.end.line + 1 } : undefined;
+}
+
+// The combine host used inside the editor: workspace file system, settings and folders.
+export function createVscodeHost(): CombineHost {
+    return {
+        fs: {
+            async stat(fsPath) {
+                try {
+                    const stats = await vscode.workspace.fs.stat(vscode.Uri.file(fsPath));
+                    return { type: toHostFileType(stats.type), size: stats.size, mtime: stats.mtime };
+                } catch (error) {
+                    if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                        return undefined;
+                    }
+                    throw error;
+                }
+            },
+            readFile: fsPath => Promise.resolve(vscode.workspace.fs.readFile(vscode.Uri.file(fsPath))),
+            async readDirectory(fsPath) {
+                const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(fsPath));
+                return entries.map(([name]) => name);
+            }
+        },
+        config: {
+            get: <T>(key: string, defaultValue: T) => vscode.workspace.getConfiguration('fileCombine').get<T>(key, defaultValue)
+        },
+        workspaceRoots: (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath),
+        workspaceRootFor: fsPath => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath))?.uri.fsPath,
+        workspaceFolderName: root => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root))?.name ?? path.basename(root),
+        // Without a folder prefix; the pipeline adds one itself when a selection spans several folders.
+        relativePath: fsPath => vscode.workspace.asRelativePath(fsPath, false),
+        findSymbol: findDocumentSymbol
+    };
+}
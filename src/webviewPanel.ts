@@ -1,12 +1,21 @@
 // src/webviewPanel.ts
 
 import * as vscode from 'vscode';
+import { openFileAt } from './openReference';
+import { RenderedDocument } from './types';
 import { getNonce } from './utils';
 
+// File sections are posted to the webview in batches of roughly this many characters.
+const CHUNK_SIZE = 512 * 1024;
+
 export class CombinedFilesPanel {
     public static currentPanel: CombinedFilesPanel | undefined;
     private readonly _panel: vscode.WebviewPanel;
     private _disposables: vscode.Disposable[] = [];
+    private _content: RenderedDocument | undefined;
+    private _ready = false;
+    // Bumped for every new document, so a delivery still in progress stops when it is replaced.
+    private _generation = 0;
 
     private constructor(panel: vscode.WebviewPanel, private readonly _extensionUri: vscode.Uri) {
         this._panel = panel;
@@ -14,10 +23,12 @@ export class CombinedFilesPanel {
             enableScripts: true,
             localResourceRoots: [this._extensionUri]
         };
+        this._panel.webview.html = this._getHtmlForWebview();
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._panel.webview.onDidReceiveMessage(message => this._handleMessage(message), null, this._disposables);
     }
 
-    public static createOrShow(extensionUri: vscode.Uri, content: string) {
+    public static createOrShow(extensionUri: vscode.Uri, content: RenderedDocument) {
         const column = vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : undefined;
 
         if (CombinedFilesPanel.currentPanel) {
@@ -35,12 +46,16 @@ export class CombinedFilesPanel {
         CombinedFilesPanel.currentPanel.updateContent(content);
     }
 
-    public updateContent(content: string) {
-        this._panel.webview.html = this._getHtmlForWebview(content);
+    public updateContent(content: RenderedDocument) {
+        this._content = content;
+        if (this._ready) {
+            this._sendContent(content);
+        }
     }
 
     public dispose() {
         CombinedFilesPanel.currentPanel = undefined;
+        this._generation++;
         this._panel.dispose();
         while (this._disposables.length) {
             const x = this._disposables.pop();
@@ -50,7 +65,44 @@ export class CombinedFilesPanel {
         }
     }
 
-    private _getHtmlForWebview(content: string) {
+    // Posting the document in chunks keeps the webview responsive on large selections, instead of inlining it in the HTML.
+    private async _sendContent(content: RenderedDocument) {
+        const generation = ++this._generation;
+        const webview = this._panel.webview;
+        await webview.postMessage({
+            command: 'reset', header: content.header, footer: content.footer, separator: content.separator, total: content.files.length
+        });
+
+        let chunk: RenderedDocument['files'] = [];
+        let chunkSize = 0;
+        for (const file of content.files) {
+            chunk.push(file);
+            chunkSize += file.text.length;
+            if (chunkSize >= CHUNK_SIZE) {
+                if (generation !== this._generation || !await webview.postMessage({ command: 'files', files: chunk })) { return; }
+                chunk = [];
+                chunkSize = 0;
+            }
+        }
+        if (generation !== this._generation) { return; }
+        if (chunk.length > 0) {
+            await webview.postMessage({ command: 'files', files: chunk });
+        }
+        await webview.postMessage({ command: 'done' });
+    }
+
+    private async _handleMessage(message: { command: string; fsPath?: string; line?: number; contentHash?: string }) {
+        if (message.command === 'ready') {
+            this._ready = true;
+            if (this._content) {
+                this._sendContent(this._content);
+            }
+        } else if (message.command === 'openFile' && message.fsPath) {
+            await openFileAt(vscode.Uri.file(message.fsPath), message.line, undefined, message.contentHash);
+        }
+    }
+
+    private _getHtmlForWebview() {
         const nonce = getNonce();
         const csp = `default-src 'none'; style-src ${this._panel.webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';`;
 
@@ -72,33 +124,141 @@ export class CombinedFilesPanel {
                     color: var(--vscode-editor-foreground);
                 }
 
-                .content-container {
+                .layout {
+                    display: flex;
                     height: 100%;
-                    width: 100%;
+                }
+
+                .sidebar {
+                    width: 280px;
+                    flex-shrink: 0;
+                    display: flex;
+                    flex-direction: column;
+                    border-right: 1px solid var(--vscode-panel-border, transparent);
+                    background-color: var(--vscode-sideBar-background);
+                    font-family: var(--vscode-font-family);
+                    font-size: var(--vscode-font-size);
+                }
+
+                .sidebar-header {
+                    padding: 10px;
+                    display: flex;
+                    flex-direction: column;
+                    gap: 8px;
+                    border-bottom: 1px solid var(--vscode-panel-border, transparent);
+                }
+
+                #search {
+                    padding: 4px 6px;
+                    color: var(--vscode-input-foreground);
+                    background-color: var(--vscode-input-background);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                }
+
+                #search:focus {
+                    outline: 1px solid var(--vscode-focusBorder);
+                }
+
+                #totals {
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                #file-list {
+                    list-style: none;
+                    margin: 0;
+                    padding: 0;
+                    overflow-y: auto;
+                    flex: 1;
+                }
+
+                #file-list li {
+                    padding: 3px 10px;
+                    cursor: pointer;
+                    white-space: nowrap;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                }
+
+                #file-list li:hover {
+                    background-color: var(--vscode-list-hoverBackground);
+                }
+
+                #file-list .meta {
+                    color: var(--vscode-descriptionForeground);
+                    margin-left: 6px;
+                }
+
+                .content-container {
+                    flex: 1;
                     overflow-y: auto;
                     box-sizing: border-box;
-                    /* MODIFICATION: Reverted padding to a small, uniform value. */
-                    /* The content will now start at the top and scroll behind the button. */
-                    padding: 15px; 
+                    padding: 15px;
                 }
-                
-                #editor {
-                    white-space: pre-wrap; 
+
+                pre {
+                    white-space: pre-wrap;
                     word-wrap: break-word;
+                    margin: 0;
+                }
+
+                details.file-section {
+                    margin-bottom: 8px;
+                    border: 1px solid var(--vscode-panel-border, transparent);
+                }
+
+                details.file-section > summary {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    padding: 4px 8px;
+                    cursor: pointer;
+                    background-color: var(--vscode-sideBarSectionHeader-background, var(--vscode-sideBar-background));
+                    font-family: var(--vscode-font-family);
+                }
+
+                details.file-section > summary .title {
+                    flex: 1;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                }
+
+                a.line-number {
+                    color: var(--vscode-editorLineNumber-foreground, var(--vscode-descriptionForeground));
+                    cursor: pointer;
+                    text-decoration: none;
+                }
+                a.line-number:hover {
+                    color: var(--vscode-textLink-activeForeground, var(--vscode-textLink-foreground));
+                    text-decoration: underline;
+                }
+                details.file-section > pre {
+                    padding: 8px;
+                }
+
+                .hidden {
+                    display: none !important;
+                }
+
+                button {
+                    padding: 2px 8px;
+                    background-color: var(--vscode-button-secondaryBackground, var(--vscode-button-background));
+                    color: var(--vscode-button-secondaryForeground, var(--vscode-button-foreground));
+                    border: 1px solid var(--vscode-button-border, transparent);
+                    font-size: var(--vscode-font-size);
+                    border-radius: 2px;
+                    cursor: pointer;
+                }
+
+                button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground, var(--vscode-button-hoverBackground));
                 }
 
                 .copy-button {
-                    position: fixed;
-                    top: 15px;
-                    right: 20px;
-                    padding: 8px 16px; 
+                    padding: 6px 16px;
                     background-color: var(--vscode-button-background);
                     color: var(--vscode-button-foreground);
-                    border: 1px solid var(--vscode-button-border, transparent);
-                    font-size: var(--vscode-font-size);
                     border-radius: 4px;
-                    cursor: pointer;
-                    z-index: 1000;
                     transition: background-color 0.1s ease-in-out;
                 }
 
@@ -106,52 +266,240 @@ export class CombinedFilesPanel {
                     background-color: var(--vscode-button-hoverBackground);
                 }
 
-                .copy-button:focus {
-                    outline: 1px solid var(--vscode-focusBorder);
-                    outline-offset: 2px;
+                button:disabled {
+                    opacity: 0.6;
+                    cursor: default;
                 }
 
-                .copy-button:active {
-                    background-color: var(--vscode-button-secondaryBackground, var(--vscode-button-background));
+                button:focus {
+                    outline: 1px solid var(--vscode-focusBorder);
+                    outline-offset: 2px;
                 }
             </style>
         </head>
         <body>
-            <button id="copy-btn" class="copy-button">Copy to Clipboard</button>
+            <div class="layout">
+                <nav class="sidebar">
+                    <div class="sidebar-header">
+                        <button id="copy-btn" class="copy-button">Copy to Clipboard</button>
+                        <input id="search" type="search" placeholder="Search files and contents">
+                        <span id="totals"></span>
+                    </div>
+                    <ul id="file-list"></ul>
+                </nav>
 
-            <div class="content-container">
-                <pre id="editor"></pre>
+                <div class="content-container" id="content">
+                    <pre id="header"></pre>
+                    <div id="sections"></div>
+                    <pre id="footer"></pre>
+                </div>
             </div>
-            
+
             <script nonce="${nonce}">
                 (function() {
-                    const editorPre = document.getElementById('editor');
+                    const vscode = acquireVsCodeApi();
+                    let data = { header: '', footer: '', separator: '', files: [] };
+                    let total = 0;
+                    let loading = false;
+                    let removed = new Set();
+                    let sections = [];
+                    let listItems = [];
+
                     const copyButton = document.getElementById('copy-btn');
-                    
-                    const encodedContent = \`${encodeURIComponent(content)}\`;
-                    const decodedContent = decodeURIComponent(encodedContent);
-                    editorPre.textContent = decodedContent;
-    
-                    function copyContent() {
-                        navigator.clipboard.writeText(decodedContent).then(() => {
-                            copyButton.textContent = 'Copied!';
+                    const searchInput = document.getElementById('search');
+                    const totals = document.getElementById('totals');
+                    const fileList = document.getElementById('file-list');
+                    const sectionsContainer = document.getElementById('sections');
+                    const header = document.getElementById('header');
+                    const footer = document.getElementById('footer');
+
+                    function formatSize(bytes) {
+                        const units = ['B', 'KB', 'MB', 'GB'];
+                        let size = bytes;
+                        let unitIndex = 0;
+                        while (size >= 1024 && unitIndex < units.length - 1) {
+                            size /= 1024;
+                            unitIndex++;
+                        }
+                        return size.toFixed(1) + ' ' + units[unitIndex];
+                    }
+
+                    function currentText() {
+                        const included = data.files.filter(function(file, index) { return !removed.has(index); });
+                        return data.header + included.map(function(file) { return file.text; }).join(data.separator) + data.footer;
+                    }
+
+                    function copyText(text, button, label) {
+                        navigator.clipboard.writeText(text).then(() => {
+                            button.textContent = 'Copied!';
                             setTimeout(() => {
-                                copyButton.textContent = 'Copy to Clipboard';
+                                button.textContent = label;
                             }, 2000);
                         }, () => {
-                            copyButton.textContent = 'Error!';
+                            button.textContent = 'Error!';
                             setTimeout(() => {
-                                copyButton.textContent = 'Copy to Clipboard';
+                                button.textContent = label;
                             }, 2000);
                         });
                     }
 
-                    if (copyButton) {
-                        copyButton.addEventListener('click', copyContent);
+                    function makeButton(label, title, onClick) {
+                        const button = document.createElement('button');
+                        button.textContent = label;
+                        button.title = title;
+                        button.addEventListener('click', function(event) {
+                            event.preventDefault();
+                            event.stopPropagation();
+                            onClick(button);
+                        });
+                        return button;
                     }
+
+                    function updateTotals() {
+                        let fileCount = 0;
+                        let tokenCount = 0;
+                        let byteCount = 0;
+                        data.files.forEach(function(file, index) {
+                            if (removed.has(index)) { return; }
+                            fileCount++;
+                            tokenCount += file.tokens;
+                            byteCount += file.size;
+                        });
+                        const progress = loading ? ' · loading ' + data.files.length + '/' + total : '';
+                        totals.textContent = fileCount + ' files · ' + formatSize(byteCount) + ' · ' + tokenCount.toLocaleString() + ' tokens' + progress;
+                        copyButton.disabled = loading;
+                    }
+
+                    function removeFile(index) {
+                        removed.add(index);
+                        sections[index].remove();
+                        listItems[index].remove();
+                        updateTotals();
+                    }
+
+                    function matchesSearch(file) {
+                        const query = searchInput.value.trim().toLowerCase();
+                        return !query || file.path.toLowerCase().includes(query) || file.text.toLowerCase().includes(query);
+                    }
+
+                    // Turns the line number of each numbered line into a link to that line in the editor.
+                    function renderNumberedText(pre, file) {
+                        const fragment = document.createDocumentFragment();
+                        let plain = '';
+                        for (const line of file.text.split('\\n')) {
+                            const match = /^(\\s*)(\\d+)( \\| )/.exec(line);
+                            if (!match) {
+                                plain += line + '\\n';
+                                continue;
+                            }
+                            fragment.appendChild(document.createTextNode(plain + match[1]));
+                            plain = match[3] + line.slice(match[0].length) + '\\n';
+                            const link = document.createElement('a');
+                            link.className = 'line-number';
+                            link.textContent = match[2];
+                            link.dataset.line = match[2];
+                            fragment.appendChild(link);
+                        }
+                        fragment.appendChild(document.createTextNode(plain.slice(0, -1)));
+                        pre.appendChild(fragment);
+                        pre.addEventListener('click', function(event) {
+                            const line = event.target.dataset && event.target.dataset.line;
+                            if (line) {
+                                vscode.postMessage({ command: 'openFile', fsPath: file.fsPath, line: Number(line), contentHash: file.contentHash });
+                            }
+                        });
+                    }
+
+                    function addFile(file) {
+                        const index = data.files.length;
+                        data.files.push(file);
+                        const meta = formatSize(file.size) + ', ' + file.tokens.toLocaleString() + ' tokens';
+
+                        const section = document.createElement('details');
+                        section.className = 'file-section';
+                        section.open = true;
+                        const summary = document.createElement('summary');
+                        const title = document.createElement('span');
+                        title.className = 'title';
+                        title.textContent = file.path + ' (' + meta + ')';
+                        title.title = file.path + '@' + file.contentHash;
+                        summary.appendChild(title);
+                        summary.appendChild(makeButton('Copy', 'Copy this file section', function(button) { copyText(file.text, button, 'Copy'); }));
+                        summary.appendChild(makeButton('Open', 'Open the source file in an editor', function() { vscode.postMessage({ command: 'openFile', fsPath: file.fsPath, contentHash: file.contentHash }); }));
+                        summary.appendChild(makeButton('Remove', 'Remove this file from the output', function() { removeFile(index); }));
+                        const pre = document.createElement('pre');
+                        if (file.numbered) {
+                            renderNumberedText(pre, file);
+                        } else {
+                            pre.textContent = file.text;
+                        }
+                        section.appendChild(summary);
+                        section.appendChild(pre);
+                        sections.push(section);
+
+                        const item = document.createElement('li');
+                        item.title = file.path;
+                        item.textContent = file.path;
+                        const metaSpan = document.createElement('span');
+                        metaSpan.className = 'meta';
+                        metaSpan.textContent = meta;
+                        item.appendChild(metaSpan);
+                        item.addEventListener('click', function() {
+                            section.open = true;
+                            section.scrollIntoView({ block: 'start' });
+                        });
+                        listItems.push(item);
+
+                        const hidden = !matchesSearch(file);
+                        section.classList.toggle('hidden', hidden);
+                        item.classList.toggle('hidden', hidden);
+                        return { section: section, item: item };
+                    }
+
+                    window.addEventListener('message', function(event) {
+                        const message = event.data;
+                        if (message.command === 'reset') {
+                            data = { header: message.header, footer: message.footer, separator: message.separator, files: [] };
+                            total = message.total;
+                            loading = true;
+                            removed = new Set();
+                            sections = [];
+                            listItems = [];
+                            sectionsContainer.replaceChildren();
+                            fileList.replaceChildren();
+                            header.textContent = data.header;
+                            footer.textContent = data.footer;
+                            updateTotals();
+                        } else if (message.command === 'files') {
+                            const sectionFragment = document.createDocumentFragment();
+                            const listFragment = document.createDocumentFragment();
+                            message.files.forEach(function(file) {
+                                const added = addFile(file);
+                                sectionFragment.appendChild(added.section);
+                                listFragment.appendChild(added.item);
+                            });
+                            sectionsContainer.appendChild(sectionFragment);
+                            fileList.appendChild(listFragment);
+                            updateTotals();
+                        } else if (message.command === 'done') {
+                            loading = false;
+                            updateTotals();
+                        }
+                    });
+
+                    searchInput.addEventListener('input', function() {
+                        data.files.forEach(function(file, index) {
+                            const matches = matchesSearch(file);
+                            sections[index].classList.toggle('hidden', !matches);
+                            listItems[index].classList.toggle('hidden', !matches);
+                        });
+                    });
+
+                    copyButton.addEventListener('click', function() { copyText(currentText(), copyButton, 'Copy to Clipboard'); });
+                    vscode.postMessage({ command: 'ready' });
                 }());
             </script>
         </body>
         </html>`;
     }
-}
\ No newline at end of file
+}